@@ -3,4 +3,5 @@ pragma solidity ^0.8.19;
 
 library StakingRoles {
   bytes32 public constant STAKING_MANAGER_ROLE = keccak256("STAKING_MANAGER");
+  bytes32 public constant PAUSER_ROLE = keccak256("PAUSER");
 }
\ No newline at end of file
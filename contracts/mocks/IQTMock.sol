@@ -2,9 +2,10 @@
 pragma solidity 0.8.19;
 
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 
-contract IQTMock is ERC20Burnable {
-    constructor(address mintTo) ERC20("IQ Protocol Token", "IQT") {
+contract IQTMock is ERC20Burnable, ERC20Permit {
+    constructor(address mintTo) ERC20("IQ Protocol Token", "IQT") ERC20Permit("IQ Protocol Token") {
         _mint(mintTo, 1_000_000_000 * 10 ** decimals());
     }
 }
\ No newline at end of file
@@ -8,6 +8,36 @@ interface IStakingManagement {
      */
     error StakingPlanDoesNotExist(uint256 planId);
 
+    /**
+     * @dev Reverts if the staking plan is deactivated and does not accept new stakes.
+     * @param planId Unique ID of the staking plan.
+     */
+    error StakingPlanIsNotActive(uint256 planId);
+
+    /**
+     * @dev Reverts if the staking plan is activated while it is already active.
+     * @param planId Unique ID of the staking plan.
+     */
+    error StakingPlanIsAlreadyActive(uint256 planId);
+
+    /**
+     * @dev Reverts if the staking plan does not accept stakes yet.
+     * @param planId Unique ID of the staking plan.
+     * @param startsAt Timestamp from which the staking plan accepts stakes.
+     */
+    error StakingPlanIsNotOpenYet(uint256 planId, uint256 startsAt);
+
+    /**
+     * @dev Reverts if the staking window of the staking plan is over.
+     * @param planId Unique ID of the staking plan.
+     */
+    error StakingPlanIsClosed(uint256 planId);
+
+    /**
+     * @dev Reverts if the staking window or fixed maturity of a staking plan are inconsistent.
+     */
+    error InvalidStakingPlanSchedule();
+
     /**
      * @dev Reverts if the duration is not greater than 1 day.
      */
@@ -18,6 +48,16 @@ interface IStakingManagement {
      */
     error APYMustBeWithinRange();
 
+    /**
+     * @dev Reverts if the early withdrawal penalty is above 100%.
+     */
+    error PenaltyMustBeWithinRange();
+
+    /**
+     * @dev Reverts if the share of earnings paid on early withdrawal is above 100%.
+     */
+    error EarningsShareMustBeWithinRange();
+
     /**
      * @dev Reverts if the minimum stake is bigger or not equal to the maximum stake.
      */
@@ -34,6 +74,68 @@ interface IStakingManagement {
      */
     error CallerIsNotAStakingManager();
 
+    /**
+     * @dev Reverts if a stake would push the principal of the plan above its cap.
+     * @param planId Unique ID of the staking plan.
+     * @param cap Principal cap of the plan.
+     */
+    error PlanCapExceeded(uint256 planId, uint256 cap);
+
+    /**
+     * @dev Reverts if a stake would push the principal of all plans above the global cap.
+     * @param cap Global principal cap.
+     */
+    error GlobalCapExceeded(uint256 cap);
+
+    /**
+     * @dev Reverts if a stake would push the principal of the wallet above the per-wallet cap.
+     * @param wallet Address of the staker.
+     * @param cap Per-wallet principal cap.
+     */
+    error WalletCapExceeded(address wallet, uint256 cap);
+
+    /**
+     * @dev Reverts if a stake would exceed the per-wallet limit of active stakes.
+     * @param wallet Address of the staker.
+     * @param limit Per-wallet limit of active stakes.
+     */
+    error WalletStakeLimitExceeded(address wallet, uint256 limit);
+
+    /**
+     * @dev Reverts if the caller is not a pauser.
+     */
+    error CallerIsNotAPauser();
+
+    /**
+     * @dev Reverts if staking is paused.
+     */
+    error StakingIsPaused();
+
+    /**
+     * @dev Reverts if staking is not paused.
+     */
+    error StakingIsNotPaused();
+
+    /**
+     * @dev Reverts if withdrawals are paused.
+     */
+    error WithdrawalsArePaused();
+
+    /**
+     * @dev Reverts if withdrawals are not paused.
+     */
+    error WithdrawalsAreNotPaused();
+
+    /**
+     * @dev Reverts if the emergency mode is active.
+     */
+    error EmergencyModeIsActive();
+
+    /**
+     * @dev Reverts if the emergency mode is not active.
+     */
+    error EmergencyModeIsNotActive();
+
     /**
      * @dev Reverts if there is an error during adding staking plan.
      * @param duration Duration of the staking plan (in seconds).
@@ -83,20 +185,175 @@ interface IStakingManagement {
      */
     event StakingPlanUpdated(uint256 indexed planId, uint256 duration, uint16 apy);
 
+    /**
+     * @dev Emitted when the interest model of a staking plan is changed.
+     * @param planId Staking plan ID.
+     * @param interestModel New interest model.
+     */
+    event StakingPlanInterestModelUpdated(uint256 indexed planId, InterestModel interestModel);
+
+    /**
+     * @dev Emitted when the early withdrawal rules of a staking plan are changed.
+     * @param planId Staking plan ID.
+     * @param isEnabled Whether early withdrawals are allowed while global withdrawals are disabled.
+     * @param penalty Penalty on the principal (100_00 = 100%).
+     * @param earningsShare Share of the accrued earnings paid out (100_00 = 100%).
+     * @param minimumLock Minimum time (in seconds) since staking before any early withdrawal.
+     */
+    event EarlyWithdrawalRulesUpdated(
+        uint256 indexed planId,
+        bool isEnabled,
+        uint16 penalty,
+        uint16 earningsShare,
+        uint256 minimumLock
+    );
+
+    /**
+     * @dev Emitted when the treasury receiving early withdrawal penalties is changed.
+     * @param treasury Address of the treasury (zero address keeps penalties in the staking pool).
+     */
+    event TreasuryUpdated(address treasury);
+
+    /**
+     * @dev Emitted when the staking window or fixed maturity of a staking plan is changed.
+     * @param planId Staking plan ID.
+     * @param startsAt Timestamp from which the plan accepts stakes (0 = immediately).
+     * @param endsAt Timestamp from which the plan no longer accepts stakes (0 = never).
+     * @param maturity Fixed maturity timestamp of all stakes of the plan (0 = plan duration applies).
+     */
+    event StakingPlanScheduleUpdated(uint256 indexed planId, uint256 startsAt, uint256 endsAt, uint256 maturity);
+
     /**
      * @dev Emitted when a staking plan is removed.
      * @param planId Removed staking plan ID.
      */
     event StakingPlanRemoved(uint256 indexed planId);
 
+    /**
+     * @dev Emitted when a staking plan is deactivated.
+     * @param planId Deactivated staking plan ID.
+     */
+    event StakingPlanDeactivated(uint256 indexed planId);
+
+    /**
+     * @dev Emitted when a staking plan is activated again.
+     * @param planId Activated staking plan ID.
+     */
+    event StakingPlanActivated(uint256 indexed planId);
+
+    /**
+     * @dev How the APY of a staking plan turns into earnings.
+     * CompoundDaily, CompoundWeekly and CompoundMonthly (30 days) compound every full period,
+     * CompoundAtMaturity credits the whole-term interest once the stake matures,
+     * Simple accrues flat interest on the principal for every full day.
+     */
+    enum InterestModel {
+        CompoundDaily,
+        CompoundWeekly,
+        CompoundMonthly,
+        CompoundAtMaturity,
+        Simple
+    }
+
+    /**
+     * @dev Emitted when the principal cap of a staking plan is changed.
+     * @param planId Staking plan ID.
+     * @param cap Principal cap (0 = unlimited).
+     */
+    event PlanCapUpdated(uint256 indexed planId, uint256 cap);
+
+    /**
+     * @dev Emitted when the global principal cap is changed.
+     * @param cap Principal cap (0 = unlimited).
+     */
+    event GlobalCapUpdated(uint256 cap);
+
+    /**
+     * @dev Emitted when the per-wallet limits are changed.
+     * @param principalCap Per-wallet principal cap (0 = unlimited).
+     * @param stakeLimit Per-wallet limit of active stakes (0 = unlimited).
+     */
+    event WalletLimitsUpdated(uint256 principalCap, uint256 stakeLimit);
+
+    /**
+     * @dev Emitted when staking is paused.
+     * @param account Address of the pauser.
+     */
+    event StakingPaused(address account);
+
+    /**
+     * @dev Emitted when staking is unpaused.
+     * @param account Address of the pauser.
+     */
+    event StakingUnpaused(address account);
+
+    /**
+     * @dev Emitted when withdrawals are paused.
+     * @param account Address of the pauser.
+     */
+    event WithdrawalsPaused(address account);
+
+    /**
+     * @dev Emitted when withdrawals are unpaused.
+     * @param account Address of the pauser.
+     */
+    event WithdrawalsUnpaused(address account);
+
+    /**
+     * @dev Emitted when the emergency mode is enabled.
+     * @param account Address of the pauser.
+     */
+    event EmergencyModeEnabled(address account);
+
+    /**
+     * @dev Emitted when the emergency mode is disabled.
+     * @param account Address of the pauser.
+     */
+    event EmergencyModeDisabled(address account);
+
+    /**
+     * @dev Staking window status of a staking plan.
+     * Upcoming before `startsAt`, Closed after `endsAt`, after the fixed maturity or when deactivated.
+     */
+    enum PlanStatus {
+        Upcoming,
+        Open,
+        Closed
+    }
+
     /**
      * @dev Staking plan data.
-     * @param duration Duration of the staking plan (in seconds).
+     * @param duration Duration of the staking plan (in seconds), ignored if the plan has a fixed maturity.
      * @param apy Annual Percentage Rate of the staking plan.
+     * @param isActive Whether the staking plan accepts new stakes.
+     * @param interestModel Interest model of the staking plan (daily compounding by default).
+     * @param startsAt Timestamp from which the plan accepts stakes (0 = immediately).
+     * @param endsAt Timestamp from which the plan no longer accepts stakes (0 = never).
+     * @param maturity Fixed maturity timestamp of all stakes of the plan (0 = plan duration applies).
      */
     struct StakingPlan {
         uint256 duration;
         uint16 apy;
+        bool isActive;
+        InterestModel interestModel;
+        uint256 startsAt;
+        uint256 endsAt;
+        uint256 maturity;
+    }
+
+    /**
+     * @dev Early withdrawal rules of a staking plan, applied when a stake is withdrawn before its end.
+     * With the default (all zero) rules an early withdrawal returns the principal without earnings.
+     * @param isEnabled Whether early withdrawals are allowed even if global withdrawals are disabled.
+     * @param penalty Penalty on the principal (100_00 = 100%).
+     * @param earningsShare Share of the accrued earnings paid out (100_00 = 100%).
+     * @param minimumLock Minimum time (in seconds) since staking before any early withdrawal.
+     */
+    struct EarlyWithdrawalRules {
+        bool isEnabled;
+        uint16 penalty;
+        uint16 earningsShare;
+        uint256 minimumLock;
     }
 
     /**
@@ -107,6 +364,60 @@ interface IStakingManagement {
      */
     function addStakingPlan(uint256 duration, uint16 apy) external returns (uint256);
 
+    /**
+     * @dev Update the terms of an existing staking plan.
+     * Only new stakes are affected, existing stakes keep the terms they were opened under.
+     * @param planId Unique ID of the staking plan.
+     * @param duration New duration of the staking plan (in seconds).
+     * @param apy New Annual Percentage Rate of the staking plan.
+     */
+    function updateStakingPlan(uint256 planId, uint256 duration, uint16 apy) external;
+
+    /**
+     * @dev Set the interest model of an existing staking plan.
+     * Only new stakes are affected, existing stakes keep the interest model they were opened under.
+     * @param planId Unique ID of the staking plan.
+     * @param interestModel New interest model.
+     */
+    function setStakingPlanInterestModel(uint256 planId, InterestModel interestModel) external;
+
+    /**
+     * @dev Set the staking window and optional fixed maturity of an existing staking plan.
+     * With a fixed maturity every stake of the plan ends at `maturity` instead of after the plan duration.
+     * @param planId Unique ID of the staking plan.
+     * @param startsAt Timestamp from which the plan accepts stakes (0 = immediately).
+     * @param endsAt Timestamp from which the plan no longer accepts stakes (0 = never).
+     * @param maturity Fixed maturity timestamp, not before `endsAt` (0 = plan duration applies).
+     */
+    function setStakingPlanSchedule(uint256 planId, uint256 startsAt, uint256 endsAt, uint256 maturity) external;
+
+    /**
+     * @dev Set the early withdrawal rules of an existing staking plan.
+     * The rules apply to stakes created afterwards, existing stakes keep the rules in force at their creation.
+     * @param planId Unique ID of the staking plan.
+     * @param rules Early withdrawal rules.
+     */
+    function setEarlyWithdrawalRules(uint256 planId, EarlyWithdrawalRules calldata rules) external;
+
+    /**
+     * @dev Set the treasury receiving early withdrawal penalties.
+     * @param treasury Address of the treasury, zero address keeps penalties in the staking pool.
+     */
+    function setTreasury(address treasury) external;
+
+    /**
+     * @dev Deactivate a staking plan, so it rejects new stakes while existing stakes run to maturity.
+     * Reverts if the plan is already deactivated.
+     * @param planId Unique ID of the staking plan.
+     */
+    function deactivateStakingPlan(uint256 planId) external;
+
+    /**
+     * @dev Activate a previously deactivated staking plan, reverts if the plan is already active.
+     * @param planId Unique ID of the staking plan.
+     */
+    function activateStakingPlan(uint256 planId) external;
+
     /**
      * @dev Remove an existing staking plan.
      * @param planId Unique ID of the staking plan.
@@ -123,6 +434,57 @@ interface IStakingManagement {
      */
     function disableWithdraw() external;
 
+    /**
+     * @dev Set the cap on the active principal of a staking plan.
+     * @param planId Unique ID of the staking plan.
+     * @param cap Principal cap (0 = unlimited).
+     */
+    function setPlanCap(uint256 planId, uint256 cap) external;
+
+    /**
+     * @dev Set the cap on the active principal of all staking plans.
+     * @param cap Principal cap (0 = unlimited).
+     */
+    function setGlobalCap(uint256 cap) external;
+
+    /**
+     * @dev Set the per-wallet cap on active principal and limit on active stakes.
+     * @param principalCap Per-wallet principal cap (0 = unlimited).
+     * @param stakeLimit Per-wallet limit of active stakes (0 = unlimited).
+     */
+    function setWalletLimits(uint256 principalCap, uint256 stakeLimit) external;
+
+    /**
+     * @dev Pause new stakes and restakes.
+     */
+    function pauseStaking() external;
+
+    /**
+     * @dev Unpause new stakes and restakes.
+     */
+    function unpauseStaking() external;
+
+    /**
+     * @dev Pause withdrawals and restakes.
+     */
+    function pauseWithdrawals() external;
+
+    /**
+     * @dev Unpause withdrawals and restakes.
+     */
+    function unpauseWithdrawals() external;
+
+    /**
+     * @dev Enable the emergency mode: regular stakes and withdrawals stop,
+     * stakers can recover their principal without earnings regardless of maturity.
+     */
+    function enableEmergencyMode() external;
+
+    /**
+     * @dev Disable the emergency mode.
+     */
+    function disableEmergencyMode() external;
+
     /**
      * @dev Set the minimum and maximum stake.
      * @param minimumStake Minimum stake.
@@ -148,6 +510,52 @@ interface IStakingManagement {
      */
     function checkStakingPlanExists(uint256 planId) external view;
 
+    /**
+     * @dev Reverts if the staking plan does not exist or is deactivated.
+     * @param planId Unique ID of the staking plan.
+     */
+    function checkStakingPlanActive(uint256 planId) external view;
+
+    /**
+     * @dev Reverts if the staking plan does not exist or does not accept new stakes right now,
+     * which includes a plan whose fixed maturity has passed.
+     * @param planId Unique ID of the staking plan.
+     */
+    function checkStakingPlanOpen(uint256 planId) external view;
+
+    /**
+     * @dev Reverts if the active principal and stakes after a new stake exceed any cap.
+     * @param planId Unique ID of the staking plan.
+     * @param wallet Address of the staker.
+     * @param planPrincipal Active principal of the plan including the new stake.
+     * @param globalPrincipal Active principal of all plans including the new stake.
+     * @param walletPrincipal Active principal of the wallet including the new stake.
+     * @param walletStakes Active stakes of the wallet including the new stake.
+     */
+    function checkStakingCapacity(
+        uint256 planId,
+        address wallet,
+        uint256 planPrincipal,
+        uint256 globalPrincipal,
+        uint256 walletPrincipal,
+        uint256 walletStakes
+    ) external view;
+
+    /**
+     * @dev Reverts if staking is paused or the emergency mode is active.
+     */
+    function checkStakingAllowed() external view;
+
+    /**
+     * @dev Reverts if withdrawals are paused or the emergency mode is active.
+     */
+    function checkWithdrawalsAllowed() external view;
+
+    /**
+     * @dev Reverts if the emergency mode is not active.
+     */
+    function checkEmergencyMode() external view;
+
     /**
      * @dev Set the staking contract.
      * @param staking Address of the staking contract.
@@ -167,14 +575,38 @@ interface IStakingManagement {
      */
     function getStakingPlan(uint256 planId) external view returns (StakingPlan memory);
 
+    /**
+     * @dev Get the early withdrawal rules of a staking plan.
+     * @param planId Unique ID of the staking plan.
+     * @return Early withdrawal rules.
+     */
+    function getEarlyWithdrawalRules(uint256 planId) external view returns (EarlyWithdrawalRules memory);
+
+    /**
+     * @dev Get the treasury receiving early withdrawal penalties.
+     * @return Address of the treasury (zero address if penalties stay in the staking pool).
+     */
+    function getTreasury() external view returns (address);
+
+    /**
+     * @dev Get the staking window status of a staking plan.
+     * @param planId Unique ID of the staking plan.
+     * @return Staking plan status.
+     */
+    function getStakingPlanStatus(uint256 planId) external view returns (PlanStatus);
+
     /**
      * @dev Get all staking plans.
      * @param offset Offset of the staking plans.
      * @param limit Limit of the staking plans.
-     * @return Staking Plan ids.
      * @return Staking Plan data structs.
+     * @return Staking Plan ids.
+     * @return Staking Plan statuses.
      */
-    function getStakingPlans(uint256 offset, uint256 limit) external view returns (StakingPlan[] memory, uint256[] memory);
+    function getStakingPlans(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (StakingPlan[] memory, uint256[] memory, PlanStatus[] memory);
 
     /**
      * @dev Get the latest staking plan ID.
@@ -191,6 +623,48 @@ interface IStakingManagement {
      */
     function isWithdrawEnabled() external view returns (bool);
 
+    /**
+     * @dev Get the principal cap of a staking plan.
+     * @param planId Unique ID of the staking plan.
+     * @return Principal cap (0 = unlimited).
+     */
+    function getPlanCap(uint256 planId) external view returns (uint256);
+
+    /**
+     * @dev Get the global principal cap.
+     * @return Principal cap (0 = unlimited).
+     */
+    function getGlobalCap() external view returns (uint256);
+
+    /**
+     * @dev Get the per-wallet limits.
+     * @return principalCap Per-wallet principal cap (0 = unlimited).
+     * @return stakeLimit Per-wallet limit of active stakes (0 = unlimited).
+     */
+    function getWalletLimits() external view returns (uint256 principalCap, uint256 stakeLimit);
+
+    /**
+     * @dev Get the principal a staking plan can still accept under the plan and global caps.
+     * @param planId Unique ID of the staking plan.
+     * @return Remaining capacity (type(uint256).max if unlimited).
+     */
+    function getRemainingCapacity(uint256 planId) external view returns (uint256);
+
+    /**
+     * @dev Check if staking is paused.
+     */
+    function isStakingPaused() external view returns (bool);
+
+    /**
+     * @dev Check if withdrawals are paused.
+     */
+    function isWithdrawalsPaused() external view returns (bool);
+
+    /**
+     * @dev Check if the emergency mode is active.
+     */
+    function isEmergencyMode() external view returns (bool);
+
     /**
      * @dev Get the minimum and maximum stake.
      * @return minimumStake Minimum stake.
@@ -28,6 +28,16 @@ contract StakingManagement is IStakingManagement, AccessControl {
      */
     mapping(uint256 => StakingPlan) internal _stakingPlans;
 
+    /**
+     * @dev Early withdrawal rules per staking plan.
+     */
+    mapping(uint256 => EarlyWithdrawalRules) internal _earlyWithdrawalRules;
+
+    /**
+     * @dev Treasury receiving early withdrawal penalties (zero address keeps them in the staking pool).
+     */
+    address internal _treasury;
+
     /**
      * @dev Staking plan ID counter.
      * Starts at 0 and being defined in the constructor, then being increment in addStakingPlan().
@@ -44,6 +54,41 @@ contract StakingManagement is IStakingManagement, AccessControl {
      */
     bool internal _withdrawalEnabled;
 
+    /**
+     * @dev Principal caps per staking plan (0 = unlimited).
+     */
+    mapping(uint256 => uint256) internal _planCaps;
+
+    /**
+     * @dev Principal cap of all staking plans (0 = unlimited).
+     */
+    uint256 internal _globalCap;
+
+    /**
+     * @dev Per-wallet principal cap (0 = unlimited).
+     */
+    uint256 internal _walletPrincipalCap;
+
+    /**
+     * @dev Per-wallet limit of active stakes (0 = unlimited).
+     */
+    uint256 internal _walletStakeLimit;
+
+    /**
+     * @dev Whether new stakes are paused.
+     */
+    bool internal _stakingPaused;
+
+    /**
+     * @dev Whether withdrawals are paused.
+     */
+    bool internal _withdrawalsPaused;
+
+    /**
+     * @dev Whether the emergency mode is active.
+     */
+    bool internal _emergencyMode;
+
     /**
      * @dev Minimum stake.
      */
@@ -61,6 +106,13 @@ contract StakingManagement is IStakingManagement, AccessControl {
         _;
     }
 
+    modifier onlyPauser() {
+        if (!hasRole(StakingRoles.PAUSER_ROLE, _msgSender()) && !hasRole(DEFAULT_ADMIN_ROLE, _msgSender())) {
+            revert CallerIsNotAPauser();
+        }
+        _;
+    }
+
     /**
      * @dev Constructor.
      * @param _stakingToken Staking token (IQT).
@@ -72,28 +124,131 @@ contract StakingManagement is IStakingManagement, AccessControl {
 
         _setupRole(DEFAULT_ADMIN_ROLE, _msgSender());
         _setupRole(StakingRoles.STAKING_MANAGER_ROLE, _msgSender());
+        _setupRole(StakingRoles.PAUSER_ROLE, _msgSender());
     }
 
     /**
      * @inheritdoc IStakingManagement
      */
     function addStakingPlan(uint256 duration, uint16 apy) external override onlyStakingManager returns (uint256) {
-        if (duration < Constants.SECONDS_IN_DAY) revert DurationMustBeGreaterThanOneDay();
-        if (apy == 0 || apy > Constants.HUNDRED_PERCENT) revert APYMustBeWithinRange();
+        _validateStakingPlan(duration, apy);
 
         unchecked {
             _latestStakingPlanId++;
             uint256 planId = _latestStakingPlanId;
-            _stakingPlans[planId] = StakingPlan({duration: duration, apy: apy});
+            _stakingPlans[planId] = StakingPlan({
+                duration: duration,
+                apy: apy,
+                isActive: true,
+                interestModel: InterestModel.CompoundDaily,
+                startsAt: 0,
+                endsAt: 0,
+                maturity: 0
+            });
             // check that plan successfully added
             if(!_stakingPlanIds.add(planId)) {
                 revert ErrorDuringAddingStakingPlan(duration, apy);
             }
 
+            emit StakingPlanAdded(planId, duration, apy);
+
             return planId;
         }
     }
 
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function updateStakingPlan(uint256 planId, uint256 duration, uint16 apy) external override onlyStakingManager {
+        _checkStakingPlanExists(planId);
+        _validateStakingPlan(duration, apy);
+
+        StakingPlan storage plan = _stakingPlans[planId];
+        plan.duration = duration;
+        plan.apy = apy;
+
+        emit StakingPlanUpdated(planId, duration, apy);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function setStakingPlanInterestModel(
+        uint256 planId,
+        InterestModel interestModel
+    ) external override onlyStakingManager {
+        _checkStakingPlanExists(planId);
+        _stakingPlans[planId].interestModel = interestModel;
+
+        emit StakingPlanInterestModelUpdated(planId, interestModel);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function setStakingPlanSchedule(
+        uint256 planId,
+        uint256 startsAt,
+        uint256 endsAt,
+        uint256 maturity
+    ) external override onlyStakingManager {
+        _checkStakingPlanExists(planId);
+        if (endsAt != 0 && endsAt <= startsAt) revert InvalidStakingPlanSchedule();
+        if (maturity != 0 && (maturity <= startsAt || maturity < endsAt)) revert InvalidStakingPlanSchedule();
+
+        StakingPlan storage plan = _stakingPlans[planId];
+        plan.startsAt = startsAt;
+        plan.endsAt = endsAt;
+        plan.maturity = maturity;
+
+        emit StakingPlanScheduleUpdated(planId, startsAt, endsAt, maturity);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function setEarlyWithdrawalRules(
+        uint256 planId,
+        EarlyWithdrawalRules calldata rules
+    ) external override onlyStakingManager {
+        _checkStakingPlanExists(planId);
+        if (rules.penalty > Constants.HUNDRED_PERCENT) revert PenaltyMustBeWithinRange();
+        if (rules.earningsShare > Constants.HUNDRED_PERCENT) revert EarningsShareMustBeWithinRange();
+        _earlyWithdrawalRules[planId] = rules;
+
+        emit EarlyWithdrawalRulesUpdated(planId, rules.isEnabled, rules.penalty, rules.earningsShare, rules.minimumLock);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function setTreasury(address treasury) external override onlyStakingManager {
+        _treasury = treasury;
+
+        emit TreasuryUpdated(treasury);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function deactivateStakingPlan(uint256 planId) external override onlyStakingManager {
+        _checkStakingPlanActive(planId);
+        _stakingPlans[planId].isActive = false;
+
+        emit StakingPlanDeactivated(planId);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function activateStakingPlan(uint256 planId) external override onlyStakingManager {
+        _checkStakingPlanExists(planId);
+        if (_stakingPlans[planId].isActive) revert StakingPlanIsAlreadyActive(planId);
+        _stakingPlans[planId].isActive = true;
+
+        emit StakingPlanActivated(planId);
+    }
+
     /**
      * @inheritdoc IStakingManagement
      */
@@ -105,6 +260,10 @@ contract StakingManagement is IStakingManagement, AccessControl {
             revert ErrorDuringRemovingStakingPlan(planId);
         }
         delete _stakingPlans[planId];
+        delete _earlyWithdrawalRules[planId];
+        delete _planCaps[planId];
+
+        emit StakingPlanRemoved(planId);
     }
 
     /**
@@ -121,6 +280,95 @@ contract StakingManagement is IStakingManagement, AccessControl {
         _withdrawalEnabled = false;
     }
 
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function setPlanCap(uint256 planId, uint256 cap) external override onlyStakingManager {
+        _checkStakingPlanExists(planId);
+        _planCaps[planId] = cap;
+
+        emit PlanCapUpdated(planId, cap);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function setGlobalCap(uint256 cap) external override onlyStakingManager {
+        _globalCap = cap;
+
+        emit GlobalCapUpdated(cap);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function setWalletLimits(uint256 principalCap, uint256 stakeLimit) external override onlyStakingManager {
+        _walletPrincipalCap = principalCap;
+        _walletStakeLimit = stakeLimit;
+
+        emit WalletLimitsUpdated(principalCap, stakeLimit);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function pauseStaking() external override onlyPauser {
+        if (_stakingPaused) revert StakingIsPaused();
+        _stakingPaused = true;
+
+        emit StakingPaused(_msgSender());
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function unpauseStaking() external override onlyPauser {
+        if (!_stakingPaused) revert StakingIsNotPaused();
+        _stakingPaused = false;
+
+        emit StakingUnpaused(_msgSender());
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function pauseWithdrawals() external override onlyPauser {
+        if (_withdrawalsPaused) revert WithdrawalsArePaused();
+        _withdrawalsPaused = true;
+
+        emit WithdrawalsPaused(_msgSender());
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function unpauseWithdrawals() external override onlyPauser {
+        if (!_withdrawalsPaused) revert WithdrawalsAreNotPaused();
+        _withdrawalsPaused = false;
+
+        emit WithdrawalsUnpaused(_msgSender());
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function enableEmergencyMode() external override onlyPauser {
+        if (_emergencyMode) revert EmergencyModeIsActive();
+        _emergencyMode = true;
+
+        emit EmergencyModeEnabled(_msgSender());
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function disableEmergencyMode() external override onlyPauser {
+        if (!_emergencyMode) revert EmergencyModeIsNotActive();
+        _emergencyMode = false;
+
+        emit EmergencyModeDisabled(_msgSender());
+    }
+
     /**
      * @inheritdoc IStakingManagement
      */
@@ -159,6 +407,68 @@ contract StakingManagement is IStakingManagement, AccessControl {
         _checkStakingPlanExists(planId);
     }
 
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function checkStakingPlanActive(uint256 planId) external view override {
+        _checkStakingPlanActive(planId);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function checkStakingPlanOpen(uint256 planId) external view override {
+        _checkStakingPlanActive(planId);
+        PlanStatus status = _getStakingPlanStatus(planId);
+        if (status == PlanStatus.Upcoming) revert StakingPlanIsNotOpenYet(planId, _stakingPlans[planId].startsAt);
+        if (status == PlanStatus.Closed) revert StakingPlanIsClosed(planId);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function checkStakingCapacity(
+        uint256 planId,
+        address wallet,
+        uint256 planPrincipal,
+        uint256 globalPrincipal,
+        uint256 walletPrincipal,
+        uint256 walletStakes
+    ) external view override {
+        uint256 planCap = _planCaps[planId];
+        if (planCap != 0 && planPrincipal > planCap) revert PlanCapExceeded(planId, planCap);
+        if (_globalCap != 0 && globalPrincipal > _globalCap) revert GlobalCapExceeded(_globalCap);
+        if (_walletPrincipalCap != 0 && walletPrincipal > _walletPrincipalCap) {
+            revert WalletCapExceeded(wallet, _walletPrincipalCap);
+        }
+        if (_walletStakeLimit != 0 && walletStakes > _walletStakeLimit) {
+            revert WalletStakeLimitExceeded(wallet, _walletStakeLimit);
+        }
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function checkStakingAllowed() external view override {
+        if (_emergencyMode) revert EmergencyModeIsActive();
+        if (_stakingPaused) revert StakingIsPaused();
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function checkWithdrawalsAllowed() external view override {
+        if (_emergencyMode) revert EmergencyModeIsActive();
+        if (_withdrawalsPaused) revert WithdrawalsArePaused();
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function checkEmergencyMode() external view override {
+        if (!_emergencyMode) revert EmergencyModeIsNotActive();
+    }
+
     /**
      * @inheritdoc IStakingManagement
      */
@@ -184,10 +494,36 @@ contract StakingManagement is IStakingManagement, AccessControl {
     /**
      * @inheritdoc IStakingManagement
      */
-    function getStakingPlans(uint256 offset, uint256 limit) external view override returns (StakingPlan[] memory, uint256[] memory) {
+    function getEarlyWithdrawalRules(uint256 planId) external view override returns (EarlyWithdrawalRules memory) {
+        _checkStakingPlanExists(planId);
+        return _earlyWithdrawalRules[planId];
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function getTreasury() external view override returns (address) {
+        return _treasury;
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function getStakingPlanStatus(uint256 planId) external view override returns (PlanStatus) {
+        _checkStakingPlanExists(planId);
+        return _getStakingPlanStatus(planId);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function getStakingPlans(
+        uint256 offset,
+        uint256 limit
+    ) external view override returns (StakingPlan[] memory, uint256[] memory, PlanStatus[] memory) {
         uint256 planCount = _stakingPlanIds.length();
         if (offset >= planCount) {
-            return (new StakingPlan[](0), new uint256[](0));
+            return (new StakingPlan[](0), new uint256[](0), new PlanStatus[](0));
         }
 
         if (offset + limit > planCount) {
@@ -196,14 +532,16 @@ contract StakingManagement is IStakingManagement, AccessControl {
 
         StakingPlan[] memory plans = new StakingPlan[](limit);
         uint256[] memory planIds = new uint256[](limit);
+        PlanStatus[] memory statuses = new PlanStatus[](limit);
         unchecked {
             for (uint256 i = 0; i < limit; ++i) {
                 uint256 planId = _stakingPlanIds.at(offset + i);
                 plans[i] = _stakingPlans[planId];
                 planIds[i] = planId;
+                statuses[i] = _getStakingPlanStatus(planId);
             }
         }
-        return (plans, planIds);
+        return (plans, planIds, statuses);
     }
 
     /**
@@ -227,6 +565,68 @@ contract StakingManagement is IStakingManagement, AccessControl {
         return _withdrawalEnabled;
     }
 
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function getPlanCap(uint256 planId) external view override returns (uint256) {
+        _checkStakingPlanExists(planId);
+        return _planCaps[planId];
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function getGlobalCap() external view override returns (uint256) {
+        return _globalCap;
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function getWalletLimits() external view override returns (uint256 principalCap, uint256 stakeLimit) {
+        return (_walletPrincipalCap, _walletStakeLimit);
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function getRemainingCapacity(uint256 planId) external view override returns (uint256) {
+        _checkStakingPlanExists(planId);
+        uint256 remaining = type(uint256).max;
+
+        uint256 planCap = _planCaps[planId];
+        if (planCap != 0) {
+            remaining = _remainingUnder(planCap, _staking.getPlanPrincipal(planId));
+        }
+        if (_globalCap != 0) {
+            uint256 globalRemaining = _remainingUnder(_globalCap, _staking.getActivePrincipal());
+            if (globalRemaining < remaining) remaining = globalRemaining;
+        }
+
+        return remaining;
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function isStakingPaused() external view override returns (bool) {
+        return _stakingPaused;
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function isWithdrawalsPaused() external view override returns (bool) {
+        return _withdrawalsPaused;
+    }
+
+    /**
+     * @inheritdoc IStakingManagement
+     */
+    function isEmergencyMode() external view override returns (bool) {
+        return _emergencyMode;
+    }
+
     /**
      * @inheritdoc IStakingManagement
      */
@@ -263,6 +663,51 @@ contract StakingManagement is IStakingManagement, AccessControl {
         if (!_stakingPlanIds.contains(planId)) revert StakingPlanDoesNotExist(planId);
     }
 
+    /**
+     * @dev Reverts if the staking plan does not exist or is deactivated.
+     * @param planId Unique ID of the staking plan.
+     */
+    function _checkStakingPlanActive(uint256 planId) internal view {
+        _checkStakingPlanExists(planId);
+        if (!_stakingPlans[planId].isActive) revert StakingPlanIsNotActive(planId);
+    }
+
+    /**
+     * @dev Returns the staking window status of an existing staking plan.
+     * @param planId Unique ID of the staking plan.
+     */
+    function _getStakingPlanStatus(uint256 planId) internal view returns (PlanStatus) {
+        StakingPlan storage plan = _stakingPlans[planId];
+        if (block.timestamp < plan.startsAt) return PlanStatus.Upcoming;
+        if (
+            !plan.isActive ||
+            (plan.endsAt != 0 && block.timestamp >= plan.endsAt) ||
+            (plan.maturity != 0 && block.timestamp >= plan.maturity)
+        ) {
+            return PlanStatus.Closed;
+        }
+        return PlanStatus.Open;
+    }
+
+    /**
+     * @dev Reverts if the staking plan terms are out of range.
+     * @param duration Duration of the staking plan (in seconds).
+     * @param apy Annual Percentage Rate of the staking plan.
+     */
+    function _validateStakingPlan(uint256 duration, uint16 apy) internal pure {
+        if (duration < Constants.SECONDS_IN_DAY) revert DurationMustBeGreaterThanOneDay();
+        if (apy == 0 || apy > Constants.HUNDRED_PERCENT) revert APYMustBeWithinRange();
+    }
+
+    /**
+     * @dev Returns how much is left under `cap`, zero if the cap was lowered below the current `usage`.
+     * @param cap Principal cap.
+     * @param usage Current principal.
+     */
+    function _remainingUnder(uint256 cap, uint256 usage) internal pure returns (uint256) {
+        return usage < cap ? cap - usage : 0;
+    }
+
     /**
      * @dev Reverts if the staking plan has active stakes.
     */
@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
+import {IStakingManagement} from "../staking-management/IStakingManagement.sol";
+
 interface IStaking {
     /**
      * @dev Reverts if `caller` is not a stake owner.
@@ -8,11 +10,23 @@ interface IStaking {
      */
     error CallerIsNotStakeOwner(uint256 stakeId);
 
+    /**
+     * @dev Reverts if the stake beneficiary is the zero address.
+     */
+    error InvalidBeneficiary();
+
     /**
      * @dev Reverts if the withdrawal is not enabled.
      */
     error EarlyWithdrawalNotAllowed(uint256 currentTimestamp, uint256 endTimestamp);
 
+    /**
+     * @dev Reverts if the minimum lock of the staking plan has not passed yet.
+     * @param stakeId Unique stake ID.
+     * @param unlockTimestamp Timestamp from which an early withdrawal is possible.
+     */
+    error EarlyWithdrawalLocked(uint256 stakeId, uint256 unlockTimestamp);
+
     /**
      * @dev Reverts if the stake does not exist.
      * @param stakeId Unique stake ID.
@@ -31,6 +45,12 @@ interface IStaking {
      */
     error StakeNotYetEnded(uint256 stakeId);
 
+    /**
+     * @dev Reverts if auto-renewal is executed for a stake that did not opt in.
+     * @param stakeId Unique stake ID.
+     */
+    error AutoRenewalNotEnabled(uint256 stakeId);
+
     /**
      * @dev Reverts if the stake amount is less than the minimum stake.
      * @param amount Amount of tokens to stake.
@@ -56,6 +76,12 @@ interface IStaking {
      */
     error ErrorDuringAddingUserStake(uint256 stakeId);
 
+    /**
+     * @dev Reverts if there is an error during removing user stake on a position transfer.
+     * @param stakeId Unique ID of the stake.
+     */
+    error ErrorDuringRemovingUserStake(uint256 stakeId);
+
     /**
      * @dev Reverts if there is an error during updating user stake.
      * @param stakeId Unique ID of the stake.
@@ -94,7 +120,7 @@ interface IStaking {
 
     /**
      * @dev Emitted when a stake is added.
-     * @param staker Address of the staker.
+     * @param staker Address of the staker (beneficiary owning the stake).
      * @param stakeId Unique ID of the stake.
      */
     event StakeAdded(address indexed staker, uint256 indexed stakeId);
@@ -106,6 +132,45 @@ interface IStaking {
      */
     event StakeWithdrawn(address indexed staker, uint256 indexed stakeId);
 
+    /**
+     * @dev Emitted when a stake principal is recovered in the emergency mode.
+     * @param staker Address of the staker.
+     * @param stakeId Unique ID of the stake.
+     * @param amount Recovered principal.
+     */
+    event StakeEmergencyWithdrawn(address indexed staker, uint256 indexed stakeId, uint256 amount);
+
+    /**
+     * @dev Emitted when a matured stake is rolled into a new stake.
+     * @param staker Address of the staker.
+     * @param oldStakeId Unique ID of the matured stake.
+     * @param newStakeId Unique ID of the new stake.
+     * @param compound Whether the earnings of the matured stake were added to the new principal.
+     */
+    event StakeRestaked(address indexed staker, uint256 indexed oldStakeId, uint256 indexed newStakeId, bool compound);
+
+    /**
+     * @dev Emitted when the auto-renewal settings of a stake are changed.
+     * @param stakeId Unique ID of the stake.
+     * @param enabled Whether the stake is renewed into its plan at maturity.
+     * @param compound Whether the earnings are added to the renewed principal.
+     */
+    event AutoRenewalUpdated(uint256 indexed stakeId, bool enabled, bool compound);
+
+    /**
+     * @dev Emitted when an early withdrawal penalty is charged.
+     * @param staker Address of the staker.
+     * @param stakeId Unique ID of the stake.
+     * @param penaltyInTokens Penalty taken from the principal.
+     * @param treasury Address receiving the penalty (zero address if it stays in the staking pool).
+     */
+    event EarlyWithdrawalPenaltyCharged(
+        address indexed staker,
+        uint256 indexed stakeId,
+        uint256 penaltyInTokens,
+        address treasury
+    );
+
     /**
      * @dev Stake data.
      * @param amount Amount of tokens staked.
@@ -116,6 +181,11 @@ interface IStaking {
      * @param earningsInTokens Amount of tokens earned (calculated after withdraw).
      * @param earningsPercentage Percentage of tokens earned (calculated after withdraw).
      * @param earlyWithdrawal Whether the stake was withdrawn before the end.
+     * @param apy Annual Percentage Rate of the staking plan at the time of staking.
+     * @param duration Duration of the staking plan at the time of staking (in seconds).
+     * @param interestModel Interest model of the staking plan at the time of staking.
+     * @param penaltyInTokens Penalty taken from the principal on early withdrawal.
+     * @param reservedEarnings Earnings reserved in the staking pool size when staking, released on withdrawal.
      */
     struct Stake {
         address staker;
@@ -127,6 +197,49 @@ interface IStaking {
         uint256 earningsInTokens;
         uint256 earningsPercentage;
         bool earlyWithdrawal;
+        uint16 apy;
+        uint256 duration;
+        IStakingManagement.InterestModel interestModel;
+        uint256 penaltyInTokens;
+        uint256 reservedEarnings;
+    }
+
+    /**
+     * @dev Stake status used by the filtered stake queries.
+     * Active until the end timestamp, Matured once it can be withdrawn with full earnings,
+     * Withdrawn or EarlyWithdrawn after the stake has been closed.
+     */
+    enum StakeStatus {
+        Active,
+        Matured,
+        Withdrawn,
+        EarlyWithdrawn
+    }
+
+    /**
+     * @dev Auto-renewal settings of a stake.
+     * @param enabled Whether the stake is renewed into its plan at maturity.
+     * @param compound Whether the earnings are added to the renewed principal instead of being paid out.
+     */
+    struct AutoRenewal {
+        bool enabled;
+        bool compound;
+    }
+
+    /**
+     * @dev Withdrawal quote.
+     * @param withdrawalAmount Amount of tokens paid out to the staker.
+     * @param earningsInTokens Earnings included in the payout.
+     * @param earningsPercentage Earnings percentage of the principal.
+     * @param penaltyInTokens Penalty taken from the principal.
+     * @param earlyWithdrawal Whether the withdrawal happens before the stake end.
+     */
+    struct WithdrawalQuote {
+        uint256 withdrawalAmount;
+        uint256 earningsInTokens;
+        uint256 earningsPercentage;
+        uint256 penaltyInTokens;
+        bool earlyWithdrawal;
     }
 
     /**
@@ -137,12 +250,88 @@ interface IStaking {
      */
     function stake(uint256 amount, uint256 stakingPlan) external returns (uint256);
 
+    /**
+     * @dev Stake `amount` tokens of the caller for `stakingPlan` period on behalf of `beneficiary`.
+     * The stake is owned by `beneficiary`, who is the only one able to withdraw it.
+     * @param beneficiary Address owning the stake.
+     * @param amount Amount of tokens to stake.
+     * @param stakingPlan Index of the staking plan to stake for.
+     * @return Unique ID of the stake.
+     */
+    function stakeFor(address beneficiary, uint256 amount, uint256 stakingPlan) external returns (uint256);
+
+    /**
+     * @dev Stake `amount` tokens for `stakingPlan` period, approving the transfer with an EIP-2612 permit.
+     * @param amount Amount of tokens to stake.
+     * @param stakingPlan Index of the staking plan to stake for.
+     * @param deadline Permit deadline.
+     * @param v Permit signature `v` component.
+     * @param r Permit signature `r` component.
+     * @param s Permit signature `s` component.
+     * @return Unique ID of the stake.
+     */
+    function stakeWithPermit(
+        uint256 amount,
+        uint256 stakingPlan,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external returns (uint256);
+
     /**
      * @dev Withdraw stake from the staking pool.
      * @param stakeId Unique ID of the stake.
      */
     function withdraw(uint256 stakeId) external;
 
+    /**
+     * @dev Recover the stake principal without earnings while the emergency mode is active, regardless of maturity.
+     * @param stakeId Unique ID of the stake.
+     */
+    function emergencyWithdraw(uint256 stakeId) external;
+
+    /**
+     * @dev Roll a matured stake into a new stake of `newPlanId` without moving the principal.
+     * The new principal is checked against the staking limits and the plan must be active.
+     * @param stakeId Unique ID of the matured stake.
+     * @param newPlanId Index of the staking plan of the new stake.
+     * @param compound Whether to add the earnings to the new principal, otherwise they are paid out.
+     * @return Unique ID of the new stake.
+     */
+    function restake(uint256 stakeId, uint256 newPlanId, bool compound) external returns (uint256);
+
+    /**
+     * @dev Opt a stake in or out of auto-renewal into its own plan at maturity.
+     * Renewed stakes keep the setting, so a stake keeps rolling until opted out or transferred.
+     * @param stakeId Unique ID of the stake.
+     * @param enabled Whether to renew the stake at maturity.
+     * @param compound Whether to add the earnings to the renewed principal.
+     */
+    function setAutoRenewal(uint256 stakeId, bool enabled, bool compound) external;
+
+    /**
+     * @dev Renew a matured stake that opted in to auto-renewal, callable by any keeper.
+     * @param stakeId Unique ID of the matured stake.
+     * @return Unique ID of the new stake.
+     */
+    function executeAutoRenewal(uint256 stakeId) external returns (uint256);
+
+    /**
+     * @dev Get the auto-renewal settings of a stake.
+     * @param stakeId Unique ID of the stake.
+     * @return Auto-renewal settings.
+     */
+    function getAutoRenewal(uint256 stakeId) external view returns (AutoRenewal memory);
+
+    /**
+     * @dev Quote the amount a withdrawal of the stake would pay out right now.
+     * Reverts with the same errors as `withdraw`.
+     * @param stakeId Unique ID of the stake.
+     * @return Withdrawal quote.
+     */
+    function quoteWithdrawal(uint256 stakeId) external view returns (WithdrawalQuote memory);
+
     /**
      * @dev Calculate the earnings in tokens and percentages.
      * @param stakeId Unique ID of the stake.
@@ -204,18 +393,65 @@ interface IStaking {
     function getAllStakeIds() external view returns (uint256[] memory);
 
     /**
-     * @dev Get the total amount of tokens staked by the staker.
+     * @dev Get the total principal of the staker's stakes, withdrawn ones included.
+     * Use `getWalletPrincipal` for the principal that is still staked.
      * @param staker Address of the staker.
      * @return Total amount of tokens staked by the staker.
      */
     function getStakedAmount(address staker) external view returns (uint256);
 
     /**
-     * @dev Get the total amount of tokens staked.
+     * @dev Get the principal of the staker's stakes that are not withdrawn yet.
+     * @param staker Address of the staker.
+     * @return Active principal of the staker.
+     */
+    function getWalletPrincipal(address staker) external view returns (uint256);
+
+    /**
+     * @dev Get the number of the staker's stakes that are not withdrawn yet.
+     * @param staker Address of the staker.
+     * @return Number of active stakes of the staker.
+     */
+    function getWalletActiveStakes(address staker) external view returns (uint256);
+
+    /**
+     * @dev Get the principal of the plan's stakes that are not withdrawn yet.
+     * @param stakingPlanId Index of the staking plan.
+     * @return Active principal of the plan.
+     */
+    function getPlanPrincipal(uint256 stakingPlanId) external view returns (uint256);
+
+    /**
+     * @dev Get the principal of all stakes that are not withdrawn yet.
+     * @return Active principal of all stakes.
+     */
+    function getActivePrincipal() external view returns (uint256);
+
+    /**
+     * @dev Get the total principal ever staked, withdrawn stakes included.
+     * Use `getActivePrincipal` for the principal that is still staked.
      * @return Total amount of tokens staked.
      */
     function getTotalStaked() external view returns (uint256);
 
+    /**
+     * @dev Get the number of stakes that are not withdrawn yet.
+     * @return Number of active stakes.
+     */
+    function getActiveStakes() external view returns (uint256);
+
+    /**
+     * @dev Get the principal of all withdrawn stakes, including restaked and emergency withdrawn ones.
+     * @return Withdrawn principal of all stakes.
+     */
+    function getWithdrawnPrincipal() external view returns (uint256);
+
+    /**
+     * @dev Get the earnings settled on withdrawn stakes, including earnings compounded into a restake.
+     * @return Settled earnings of all stakes.
+     */
+    function getPaidEarnings() external view returns (uint256);
+
     /**
      * @dev Calculate the total earnings in tokens and percentages.
      */
@@ -265,6 +501,55 @@ interface IStaking {
     */
     function getStakesPerPlan(uint256 stakingPlanId, uint256 offset, uint256 limit) external view returns (Stake[] memory);
 
+    /**
+     * @dev Returns the status of a stake.
+     * @param stakeId Unique ID of the stake.
+     */
+    function getStakeStatus(uint256 stakeId) external view returns (StakeStatus);
+
+    /**
+     * @dev Returns the early withdrawal rules of a stake, snapshotted from its plan at stake creation.
+     * @param stakeId Unique ID of the stake.
+     */
+    function getStakeEarlyWithdrawalRules(
+        uint256 stakeId
+    ) external view returns (IStakingManagement.EarlyWithdrawalRules memory);
+
+    /**
+     * @dev Returns a page of the staker's stakes with the given status.
+     * @param staker Address of the staker.
+     * @param status Stake status to filter by.
+     * @param offset Number of matching stakes to skip.
+     * @param limit Maximum number of stakes to return.
+     * @return stakeIds Unique IDs of the returned stakes.
+     * @return stakes Returned stake records.
+     * @return total Number of all stakes of the staker matching the status.
+     */
+    function getStakesByStatus(
+        address staker,
+        StakeStatus status,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory stakeIds, Stake[] memory stakes, uint256 total);
+
+    /**
+     * @dev Returns a page of the staking plan's stakes with the given status, withdrawn stakes included.
+     * The history stays available after the plan is removed, plans that never had a stake must exist.
+     * @param stakingPlanId Index of the staking plan.
+     * @param status Stake status to filter by.
+     * @param offset Number of matching stakes to skip.
+     * @param limit Maximum number of stakes to return.
+     * @return stakeIds Unique IDs of the returned stakes.
+     * @return stakes Returned stake records.
+     * @return total Number of all stakes of the plan matching the status.
+     */
+    function getPlanStakesByStatus(
+        uint256 stakingPlanId,
+        StakeStatus status,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory stakeIds, Stake[] memory stakes, uint256 total);
+
     /**
      * @dev Returns the address of the staking pool.
     */
@@ -3,13 +3,21 @@ pragma solidity ^0.8.19;
 
 import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/utils/Context.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
 
 import {IStakingManagement} from "../staking-management/IStakingManagement.sol";
 import {Constants} from "../library/Constants.sol";
+import {CompoundMath} from "../library/CompoundMath.sol";
 import {IStaking} from "./IStaking.sol";
 
-contract Staking is IStaking, Context {
+/**
+ * @dev Every stake is an ERC-721 position token with the stake ID as token ID.
+ * The token holder owns the stake: transfers move the stake between `_userStakes` sets.
+ */
+contract Staking is IStaking, ERC721 {
     using EnumerableSet for EnumerableSet.UintSet;
 
     /**
@@ -29,6 +37,7 @@ contract Staking is IStaking, Context {
 
     /**
      * @dev Balance of the staking pool assuming all stakes.
+     * Equals the sum of principal plus reserved earnings of all stakes that are not withdrawn yet.
     */
     uint256 internal _stakingPoolSize;
 
@@ -52,6 +61,61 @@ contract Staking is IStaking, Context {
      */
     EnumerableSet.UintSet private _allStakeIds;
 
+    /**
+     * @dev Mapping from stakeId => auto-renewal settings.
+     */
+    mapping(uint256 => AutoRenewal) private _autoRenewals;
+
+    /**
+     * @dev Principal of all stakes that are not withdrawn yet.
+     */
+    uint256 internal _activePrincipal;
+
+    /**
+     * @dev Principal of stakes that are not withdrawn yet per plan.
+     */
+    mapping(uint256 => uint256) internal _planPrincipal;
+
+    /**
+     * @dev Principal of stakes that are not withdrawn yet per holder.
+     */
+    mapping(address => uint256) internal _walletPrincipal;
+
+    /**
+     * @dev Number of stakes that are not withdrawn yet per holder.
+     */
+    mapping(address => uint256) internal _walletActiveStakes;
+
+    /**
+     * @dev Number of stakes that are not withdrawn yet.
+     */
+    uint256 internal _activeStakes;
+
+    /**
+     * @dev Principal of all withdrawn stakes.
+     */
+    uint256 internal _withdrawnPrincipal;
+
+    /**
+     * @dev Principal of withdrawn stakes per holder.
+     */
+    mapping(address => uint256) internal _walletWithdrawnPrincipal;
+
+    /**
+     * @dev Earnings settled on withdrawn stakes, either paid out or compounded into a restake.
+     */
+    uint256 internal _paidEarnings;
+
+    /**
+     * @dev All stake IDs ever created per plan, withdrawn ones included.
+     */
+    mapping(uint256 => uint256[]) private _planStakeHistory;
+
+    /**
+     * @dev Mapping from stakeId => early withdrawal rules of its plan at stake creation.
+     */
+    mapping(uint256 => IStakingManagement.EarlyWithdrawalRules) private _earlyWithdrawalRules;
+
     /**
      * @dev Reverts if the stake does not exist.
      * @param stakeId Unique stake ID.
@@ -62,7 +126,7 @@ contract Staking is IStaking, Context {
     }
 
     /**
-     * @dev Reverts if the caller is not the stake owner.
+     * @dev Reverts if the caller is not the stake owner (the current holder of the stake position token).
      * @param stakeId Unique stake ID
      */
     modifier onlyStakeOwner(uint256 stakeId) {
@@ -74,7 +138,7 @@ contract Staking is IStaking, Context {
      * @dev Constructor.
      * @param stakingManagement Address of the staking management contract.
      */
-    constructor(address stakingManagement, address stakingPool) {
+    constructor(address stakingManagement, address stakingPool) ERC721("IQT Stake Position", "IQT-STAKE") {
         _stakingManagement = IStakingManagement(stakingManagement);
         _stakingToken = IERC20(_stakingManagement.getStakingToken());
         _stakingPool = stakingPool;
@@ -84,62 +148,157 @@ contract Staking is IStaking, Context {
      * @inheritdoc IStaking
      */
     function stake(uint256 amount, uint256 stakingPlan) external override returns (uint256) {
-        _validateStakingAmount(amount, stakingPlan);
+        return _stake(_msgSender(), amount, stakingPlan);
+    }
 
-        uint256 estimatedEarningsInTokens;
-        (estimatedEarningsInTokens, ) = estimateStakeEarnings(amount, stakingPlan);
+    /**
+     * @inheritdoc IStaking
+     */
+    function stakeFor(address beneficiary, uint256 amount, uint256 stakingPlan) external override returns (uint256) {
+        if (beneficiary == address(0)) revert InvalidBeneficiary();
+        return _stake(beneficiary, amount, stakingPlan);
+    }
 
-        _checkStakingPoolBalance(estimatedEarningsInTokens);
+    /**
+     * @inheritdoc IStaking
+     */
+    function stakeWithPermit(
+        uint256 amount,
+        uint256 stakingPlan,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external override returns (uint256) {
+        // a front-run permit only consumes the nonce, the allowance it granted is still there
+        try IERC20Permit(address(_stakingToken)).permit(_msgSender(), address(this), amount, deadline, v, r, s) {}
+        catch {}
+
+        return _stake(_msgSender(), amount, stakingPlan);
+    }
 
-        uint256 stakeId = _createStakeRecord(amount, stakingPlan);
+    /**
+     * @inheritdoc IStaking
+     */
+    function withdraw(uint256 stakeId) external override onlyExistingStake(stakeId) onlyStakeOwner(stakeId)  {
+        _stakingManagement.checkWithdrawalsAllowed();
+        Stake storage stakeRecord = _stakes[stakeId];
+        WithdrawalQuote memory quote = _quoteWithdrawal(stakeId);
 
-        _transferToStakingPool(amount, estimatedEarningsInTokens);
+        if (quote.earlyWithdrawal) {
+            stakeRecord.earlyWithdrawal = true;
+            stakeRecord.endTimestamp = block.timestamp;
+            stakeRecord.penaltyInTokens = quote.penaltyInTokens;
+        }
+        stakeRecord.earningsInTokens = quote.earningsInTokens;
+        stakeRecord.earningsPercentage = quote.earningsPercentage;
+        _closeStake(stakeId);
 
-        emit StakeAdded(_msgSender(), stakeId);
+        // check that withdrawable amount successfully transferred to staker
+        if (!_stakingToken.transferFrom(_stakingPool, _msgSender(), quote.withdrawalAmount)) {
+            revert ErrorDuringWithdrawTransfer(_stakingPool, _msgSender(), quote.withdrawalAmount);
+        }
 
-        return stakeId;
+        if (quote.penaltyInTokens > 0) {
+            _chargePenalty(stakeId, quote.penaltyInTokens);
+        }
+
+        emit StakeWithdrawn(_msgSender(), stakeId);
     }
 
     /**
      * @inheritdoc IStaking
      */
-    function withdraw(uint256 stakeId) external override onlyExistingStake(stakeId) onlyStakeOwner(stakeId)  {
+    function emergencyWithdraw(uint256 stakeId) external override onlyExistingStake(stakeId) onlyStakeOwner(stakeId) {
+        _stakingManagement.checkEmergencyMode();
         Stake storage stakeRecord = _stakes[stakeId];
-        uint256 currentTimestamp = block.timestamp;
-
-        uint256 withdrawalAmount;
-
         if (stakeRecord.withdrawn) revert StakeAlreadyWithdrawn(stakeId);
-        if (currentTimestamp < stakeRecord.endTimestamp) {
-            if (!_stakingManagement.isWithdrawEnabled()) {
-                revert EarlyWithdrawalNotAllowed(currentTimestamp, stakeRecord.endTimestamp);
-            }
-            withdrawalAmount = stakeRecord.amount;
+
+        if (block.timestamp < stakeRecord.endTimestamp) {
             stakeRecord.earlyWithdrawal = true;
-            stakeRecord.withdrawn = true;
-            stakeRecord.endTimestamp = currentTimestamp;
-            stakeRecord.earningsInTokens = 0;
-            stakeRecord.earningsPercentage = 0;
-        } else {
-            (stakeRecord.earningsInTokens, stakeRecord.earningsPercentage) = _calculateStakeEarnings(stakeId);
-            stakeRecord.withdrawn = true;
-            withdrawalAmount = stakeRecord.amount + stakeRecord.earningsInTokens;
+            stakeRecord.endTimestamp = block.timestamp;
         }
+        _closeStake(stakeId);
 
-        // check that withdrawable amount successfully transferred to staker
-        if (!_stakingToken.transferFrom(_stakingPool, _msgSender(), withdrawalAmount)) {
-            revert ErrorDuringWithdrawTransfer(_stakingPool, _msgSender(),  withdrawalAmount);
+        // check that principal successfully transferred to staker
+        if (!_stakingToken.transferFrom(_stakingPool, _msgSender(), stakeRecord.amount)) {
+            revert ErrorDuringWithdrawTransfer(_stakingPool, _msgSender(), stakeRecord.amount);
         }
 
-        // subtract withdrawal amount from staking pool size
-        _stakingPoolSize -= withdrawalAmount;
+        emit StakeEmergencyWithdrawn(_msgSender(), stakeId, stakeRecord.amount);
+    }
 
-        // remove stake from stakes per plan counter
-        if (!_stakesPerPlan[stakeRecord.stakingPlanId].remove(stakeId)) {
-            revert ErrorDuringRemovingStakeFromPlan(stakeId, stakeRecord.stakingPlanId);
-        }
+    /**
+     * @inheritdoc IStaking
+     */
+    function restake(
+        uint256 stakeId,
+        uint256 newPlanId,
+        bool compound
+    ) external override onlyExistingStake(stakeId) onlyStakeOwner(stakeId) returns (uint256) {
+        return _restake(stakeId, newPlanId, compound);
+    }
 
-        emit StakeWithdrawn(_msgSender(), stakeId);
+    /**
+     * @inheritdoc IStaking
+     */
+    function setAutoRenewal(
+        uint256 stakeId,
+        bool enabled,
+        bool compound
+    ) external override onlyExistingStake(stakeId) onlyStakeOwner(stakeId) {
+        if (_stakes[stakeId].withdrawn) revert StakeAlreadyWithdrawn(stakeId);
+        _autoRenewals[stakeId] = AutoRenewal({enabled: enabled, compound: compound});
+
+        emit AutoRenewalUpdated(stakeId, enabled, compound);
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function executeAutoRenewal(uint256 stakeId) external override onlyExistingStake(stakeId) returns (uint256) {
+        AutoRenewal memory autoRenewal = _autoRenewals[stakeId];
+        if (!autoRenewal.enabled) revert AutoRenewalNotEnabled(stakeId);
+
+        return _restake(stakeId, _stakes[stakeId].stakingPlanId, autoRenewal.compound);
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function getAutoRenewal(uint256 stakeId) external view override onlyExistingStake(stakeId) returns (AutoRenewal memory) {
+        return _autoRenewals[stakeId];
+    }
+
+    /**
+     * @dev Returns the stake position metadata as a base64 encoded JSON data URI.
+     * @param stakeId Unique ID of the stake.
+     */
+    function tokenURI(uint256 stakeId) public view override returns (string memory) {
+        _requireMinted(stakeId);
+        Stake memory stakeRecord = _stakes[stakeId];
+
+        bytes memory attributes = abi.encodePacked(
+            '[{"trait_type":"Plan","value":', Strings.toString(stakeRecord.stakingPlanId),
+            '},{"trait_type":"Amount","value":"', Strings.toString(stakeRecord.amount),
+            '"},{"trait_type":"APY","value":', Strings.toString(stakeRecord.apy),
+            '},{"trait_type":"Maturity","display_type":"date","value":', Strings.toString(stakeRecord.endTimestamp),
+            '},{"trait_type":"Withdrawn","value":"', stakeRecord.withdrawn ? "yes" : "no", '"}]'
+        );
+
+        return string(abi.encodePacked(
+            "data:application/json;base64,",
+            Base64.encode(abi.encodePacked('{"name":"IQT Stake #', Strings.toString(stakeId), '","attributes":', attributes, "}"))
+        ));
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function quoteWithdrawal(
+        uint256 stakeId
+    ) external view override onlyExistingStake(stakeId) returns (WithdrawalQuote memory) {
+        return _quoteWithdrawal(stakeId);
     }
 
     /**
@@ -168,22 +327,10 @@ contract Staking is IStaking, Context {
         _stakingManagement.checkStakingPlanExists(stakingPlanId);
         IStakingManagement.StakingPlan memory plan = _stakingManagement.getStakingPlan(stakingPlanId);
 
-        uint256 precision = Constants.DECIMALS_PRECISION;
-
-        uint256 dailyRate = (plan.apy * precision) / Constants.HUNDRED_PERCENT / Constants.DAYS_IN_YEAR;
-        uint256 compoundingPeriods = plan.duration / Constants.SECONDS_IN_DAY;
-
-        uint256 compoundedBalance = amount * precision;
-        for (uint256 i = 0; i < compoundingPeriods; i++) {
-            compoundedBalance += (compoundedBalance * dailyRate / precision);
-        }
-
-        predictedEarningsInTokens = compoundedBalance / precision - amount;
-        predictedEarningsPercentage = (predictedEarningsInTokens > 0 && amount > 0)
-            ? (predictedEarningsInTokens * Constants.HUNDRED_PERCENT * precision) / amount / precision
-            : 0;
-
-        return (predictedEarningsInTokens, predictedEarningsPercentage);
+        uint256 term = _stakingTerm(plan);
+        // a fixed maturity plan earns nothing once the maturity has passed
+        if (term == 0) return (0, 0);
+        return _calculateEarnings(amount, plan.apy, plan.interestModel, term, term);
     }
 
     /**
@@ -264,23 +411,63 @@ contract Staking is IStaking, Context {
      * @inheritdoc IStaking
      */
     function getStakedAmount(address staker) external view override returns (uint256) {
-        uint256 total = 0;
-        uint256[] memory stakeIds = _userStakes[staker].values();
-        for (uint256 i = 0; i < stakeIds.length; i++) {
-            total += _stakes[stakeIds[i]].amount;
-        }
-        return total;
+        return _walletPrincipal[staker] + _walletWithdrawnPrincipal[staker];
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function getWalletPrincipal(address staker) external view override returns (uint256) {
+        return _walletPrincipal[staker];
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function getWalletActiveStakes(address staker) external view override returns (uint256) {
+        return _walletActiveStakes[staker];
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function getPlanPrincipal(uint256 stakingPlanId) external view override returns (uint256) {
+        return _planPrincipal[stakingPlanId];
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function getActivePrincipal() external view override returns (uint256) {
+        return _activePrincipal;
     }
 
     /**
      * @inheritdoc IStaking
      */
     function getTotalStaked() external view override returns (uint256) {
-        uint256 total = 0;
-        for (uint256 i = 0; i < _allStakeIds.length(); i++) {
-            total += _stakes[_allStakeIds.at(i)].amount;
-        }
-        return total;
+        return _activePrincipal + _withdrawnPrincipal;
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function getActiveStakes() external view override returns (uint256) {
+        return _activeStakes;
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function getWithdrawnPrincipal() external view override returns (uint256) {
+        return _withdrawnPrincipal;
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function getPaidEarnings() external view override returns (uint256) {
+        return _paidEarnings;
     }
 
     /**
@@ -364,6 +551,52 @@ contract Staking is IStaking, Context {
         return stakes;
     }
 
+    /**
+     * @inheritdoc IStaking
+     */
+    function getStakeStatus(uint256 stakeId) external view override onlyExistingStake(stakeId) returns (StakeStatus) {
+        return _getStakeStatus(stakeId);
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function getStakeEarlyWithdrawalRules(
+        uint256 stakeId
+    ) external view override onlyExistingStake(stakeId) returns (IStakingManagement.EarlyWithdrawalRules memory) {
+        return _earlyWithdrawalRules[stakeId];
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function getStakesByStatus(
+        address staker,
+        StakeStatus status,
+        uint256 offset,
+        uint256 limit
+    ) external view override returns (uint256[] memory stakeIds, Stake[] memory stakes, uint256 total) {
+        return _filterStakes(_userStakes[staker].values(), status, offset, limit);
+    }
+
+    /**
+     * @inheritdoc IStaking
+     */
+    function getPlanStakesByStatus(
+        uint256 stakingPlanId,
+        StakeStatus status,
+        uint256 offset,
+        uint256 limit
+    ) external view override returns (uint256[] memory stakeIds, Stake[] memory stakes, uint256 total) {
+        // a removed plan keeps its history, only plans that never had a stake must exist
+        if (_planStakeHistory[stakingPlanId].length == 0) _stakingManagement.checkStakingPlanExists(stakingPlanId);
+        // the plan set only holds stakes that are not withdrawn yet, so it is enough for open statuses
+        uint256[] memory candidates = status == StakeStatus.Active || status == StakeStatus.Matured
+            ? _stakesPerPlan[stakingPlanId].values()
+            : _planStakeHistory[stakingPlanId];
+        return _filterStakes(candidates, status, offset, limit);
+    }
+
     /**
      * @inheritdoc IStaking
      */
@@ -378,6 +611,56 @@ contract Staking is IStaking, Context {
         return _stakingPoolSize;
     }
 
+    /**
+     * @dev Returns the status of an existing stake.
+     * @param stakeId Unique ID of the stake.
+     */
+    function _getStakeStatus(uint256 stakeId) internal view returns (StakeStatus) {
+        Stake storage stakeRecord = _stakes[stakeId];
+        if (stakeRecord.withdrawn) {
+            return stakeRecord.earlyWithdrawal ? StakeStatus.EarlyWithdrawn : StakeStatus.Withdrawn;
+        }
+        return block.timestamp < stakeRecord.endTimestamp ? StakeStatus.Active : StakeStatus.Matured;
+    }
+
+    /**
+     * @dev Returns a page of the given stakes matching the status and the number of all matching stakes.
+     * @param candidates Stake IDs to filter.
+     * @param status Stake status to filter by.
+     * @param offset Number of matching stakes to skip.
+     * @param limit Maximum number of stakes to return.
+     */
+    function _filterStakes(
+        uint256[] memory candidates,
+        StakeStatus status,
+        uint256 offset,
+        uint256 limit
+    ) internal view returns (uint256[] memory stakeIds, Stake[] memory stakes, uint256 total) {
+        for (uint256 i = 0; i < candidates.length; i++) {
+            if (_getStakeStatus(candidates[i]) == status) total++;
+        }
+
+        if (offset >= total) {
+            return (new uint256[](0), new Stake[](0), total);
+        }
+
+        if (offset + limit > total) {
+            limit = total - offset;
+        }
+
+        stakeIds = new uint256[](limit);
+        stakes = new Stake[](limit);
+        uint256 matched = 0;
+        uint256 found = 0;
+        for (uint256 i = 0; i < candidates.length && found < limit; i++) {
+            if (_getStakeStatus(candidates[i]) != status) continue;
+            if (matched++ < offset) continue;
+            stakeIds[found] = candidates[i];
+            stakes[found] = _stakes[candidates[i]];
+            found++;
+        }
+    }
+
     /**
      * @dev Returns `true` if a stake exists.
      * @param stakeId Unique ID of the stake.
@@ -386,12 +669,107 @@ contract Staking is IStaking, Context {
         return _allStakeIds.contains(stakeId);
     }
 
+    /**
+     * @dev Creates a stake owned by `beneficiary`, paid by the caller.
+     * @param beneficiary Address owning the stake.
+     * @param amount Amount of tokens to stake.
+     * @param stakingPlan Index of the staking plan to stake for.
+     * @return stakeId Unique ID of the stake.
+    */
+    function _stake(address beneficiary, uint256 amount, uint256 stakingPlan) internal returns (uint256 stakeId) {
+        _validateStakingAmount(amount, stakingPlan);
+
+        uint256 estimatedEarningsInTokens;
+        (estimatedEarningsInTokens, ) = estimateStakeEarnings(amount, stakingPlan);
+
+        _checkStakingPoolBalance(estimatedEarningsInTokens);
+
+        stakeId = _createStakeRecord(beneficiary, amount, stakingPlan, estimatedEarningsInTokens);
+
+        _transferToStakingPool(amount, estimatedEarningsInTokens);
+
+        emit StakeAdded(beneficiary, stakeId);
+    }
+
+    /**
+     * @dev Closes a matured stake and opens a new one for the same staker with the principal already in the pool.
+     * @param stakeId Unique ID of the matured stake.
+     * @param newPlanId Index of the staking plan of the new stake.
+     * @param compound Whether to add the earnings to the new principal, otherwise they are paid out.
+     * @return newStakeId Unique ID of the new stake.
+    */
+    function _restake(uint256 stakeId, uint256 newPlanId, bool compound) internal returns (uint256 newStakeId) {
+        _stakingManagement.checkWithdrawalsAllowed();
+        Stake storage stakeRecord = _stakes[stakeId];
+        if (stakeRecord.withdrawn) revert StakeAlreadyWithdrawn(stakeId);
+        if (block.timestamp < stakeRecord.endTimestamp) revert StakeNotYetEnded(stakeId);
+
+        address staker = stakeRecord.staker;
+        (stakeRecord.earningsInTokens, stakeRecord.earningsPercentage) = _calculateStakeEarnings(stakeId);
+        // release the matured stake, the new stake reserves its own liability below
+        _closeStake(stakeId);
+
+        uint256 amount = stakeRecord.amount;
+        if (compound) {
+            amount += stakeRecord.earningsInTokens;
+        } else if (stakeRecord.earningsInTokens > 0) {
+            // check that earnings successfully transferred to staker
+            if (!_stakingToken.transferFrom(_stakingPool, staker, stakeRecord.earningsInTokens)) {
+                revert ErrorDuringWithdrawTransfer(_stakingPool, staker, stakeRecord.earningsInTokens);
+            }
+        }
+
+        _validateStakingAmount(amount, newPlanId);
+        (uint256 estimatedEarningsInTokens, ) = estimateStakeEarnings(amount, newPlanId);
+        // the principal is already in the pool, so it has to be covered on top of the new earnings
+        _checkStakingPoolBalance(amount + estimatedEarningsInTokens);
+
+        newStakeId = _createStakeRecord(staker, amount, newPlanId, estimatedEarningsInTokens);
+        _stakingPoolSize += amount + estimatedEarningsInTokens;
+
+        if (_autoRenewals[stakeId].enabled) {
+            _autoRenewals[newStakeId] = _autoRenewals[stakeId];
+        }
+
+        emit StakeAdded(staker, newStakeId);
+        emit StakeRestaked(staker, stakeId, newStakeId, compound);
+    }
+
+    /**
+     * @dev Marks the stake as withdrawn and releases it from the staking pool size and its plan.
+     * @param stakeId Unique ID of the stake.
+    */
+    function _closeStake(uint256 stakeId) internal {
+        Stake storage stakeRecord = _stakes[stakeId];
+        stakeRecord.withdrawn = true;
+
+        // release exactly what was reserved for the stake, whatever the actual payout was
+        // (early exits pay less, maturity payouts may differ from the estimate by rounding)
+        _stakingPoolSize -= stakeRecord.amount + stakeRecord.reservedEarnings;
+
+        // remove stake from stakes per plan counter
+        if (!_stakesPerPlan[stakeRecord.stakingPlanId].remove(stakeId)) {
+            revert ErrorDuringRemovingStakeFromPlan(stakeId, stakeRecord.stakingPlanId);
+        }
+
+        _activePrincipal -= stakeRecord.amount;
+        _planPrincipal[stakeRecord.stakingPlanId] -= stakeRecord.amount;
+        _walletPrincipal[stakeRecord.staker] -= stakeRecord.amount;
+        _walletActiveStakes[stakeRecord.staker]--;
+        _activeStakes--;
+
+        _withdrawnPrincipal += stakeRecord.amount;
+        _walletWithdrawnPrincipal[stakeRecord.staker] += stakeRecord.amount;
+        _paidEarnings += stakeRecord.earningsInTokens;
+    }
+
     /**
      * @dev Validates the staking amount.
      * @param amount Amount of tokens to stake.
     */
     function _validateStakingAmount(uint256 amount, uint256 stakingPlan) internal view {
-        _stakingManagement.checkStakingPlanExists(stakingPlan);
+        _stakingManagement.checkStakingAllowed();
+        _stakingManagement.checkStakingPlanOpen(stakingPlan);
         if (amount < _stakingManagement.getMinimumStake()) revert AmountIsLessThanMinimumStake(amount);
         if (amount > _stakingManagement.getMaximumStake()) revert AmountIsGreaterThanMaximumStake(amount);
     }
@@ -417,28 +795,98 @@ contract Staking is IStaking, Context {
         uint256 stakeId
     ) public view onlyExistingStake(stakeId) returns (uint256 earningsInTokens, uint256 earningsPercentage) {
         Stake memory stakeRecord = _stakes[stakeId];
-        IStakingManagement.StakingPlan memory plan = _stakingManagement.getStakingPlan(stakeRecord.stakingPlanId);
 
         if (block.timestamp < stakeRecord.startTimestamp) return (0, 0);
 
-        uint256 compoundingFrequency = Constants.DAYS_IN_YEAR;
-        uint256 precision = Constants.DECIMALS_PRECISION;
-        uint256 dailyRate = (plan.apy * precision) / Constants.HUNDRED_PERCENT / compoundingFrequency;
-        uint256 compoundingPeriods = (block.timestamp < stakeRecord.endTimestamp ?
+        // plan terms are frozen in the stake record, so plan updates never re-price existing stakes
+        uint256 stakingPeriod = (block.timestamp < stakeRecord.endTimestamp ?
             block.timestamp : stakeRecord.endTimestamp)
             - stakeRecord.startTimestamp;
-        uint256 totalCompoundingPeriods = compoundingPeriods / Constants.SECONDS_IN_DAY;
-        uint256 compoundedBalance = stakeRecord.amount * precision;
 
-        unchecked {
-            for (uint256 i = 0; i < totalCompoundingPeriods; ++i) {
-                compoundedBalance += (compoundedBalance * dailyRate / precision);
+        return _calculateEarnings(
+            stakeRecord.amount,
+            stakeRecord.apy,
+            stakeRecord.interestModel,
+            stakeRecord.duration,
+            stakingPeriod
+        );
+    }
+
+    /**
+     * @dev Calculates the payout of a stake withdrawal at the current timestamp.
+     * @param stakeId Unique ID of the stake.
+     * @return quote Withdrawal quote.
+    */
+    function _quoteWithdrawal(uint256 stakeId) internal view returns (WithdrawalQuote memory quote) {
+        Stake memory stakeRecord = _stakes[stakeId];
+        if (stakeRecord.withdrawn) revert StakeAlreadyWithdrawn(stakeId);
+
+        (quote.earningsInTokens, quote.earningsPercentage) = _calculateStakeEarnings(stakeId);
+
+        if (block.timestamp < stakeRecord.endTimestamp) {
+            IStakingManagement.EarlyWithdrawalRules memory rules = _earlyWithdrawalRules[stakeId];
+            if (!rules.isEnabled && !_stakingManagement.isWithdrawEnabled()) {
+                revert EarlyWithdrawalNotAllowed(block.timestamp, stakeRecord.endTimestamp);
+            }
+            if (block.timestamp < stakeRecord.startTimestamp + rules.minimumLock) {
+                revert EarlyWithdrawalLocked(stakeId, stakeRecord.startTimestamp + rules.minimumLock);
             }
+
+            quote.earlyWithdrawal = true;
+            quote.penaltyInTokens = (stakeRecord.amount * rules.penalty) / Constants.HUNDRED_PERCENT;
+            quote.earningsInTokens = (quote.earningsInTokens * rules.earningsShare) / Constants.HUNDRED_PERCENT;
+            quote.earningsPercentage = stakeRecord.amount > 0
+                ? (quote.earningsInTokens * Constants.HUNDRED_PERCENT) / stakeRecord.amount
+                : 0;
         }
-        earningsInTokens = compoundedBalance / precision - stakeRecord.amount;
 
-        if (earningsInTokens > 0 && stakeRecord.amount > 0) {
-            earningsPercentage = (earningsInTokens * Constants.HUNDRED_PERCENT * precision) / stakeRecord.amount / precision;
+        quote.withdrawalAmount = stakeRecord.amount - quote.penaltyInTokens + quote.earningsInTokens;
+    }
+
+    /**
+     * @dev Sends the early withdrawal penalty to the treasury, or keeps it in the staking pool if none is set.
+     * @param stakeId Unique ID of the stake.
+     * @param penaltyInTokens Penalty taken from the principal.
+    */
+    function _chargePenalty(uint256 stakeId, uint256 penaltyInTokens) internal {
+        address treasury = _stakingManagement.getTreasury();
+        // check that penalty successfully transferred to treasury
+        if (treasury != address(0) && !_stakingToken.transferFrom(_stakingPool, treasury, penaltyInTokens)) {
+            revert ErrorDuringWithdrawTransfer(_stakingPool, treasury, penaltyInTokens);
+        }
+
+        emit EarlyWithdrawalPenaltyCharged(_msgSender(), stakeId, penaltyInTokens, treasury);
+    }
+
+    /**
+     * @dev Calculates earnings in tokens and percentages according to the interest model.
+     * @param amount Amount of tokens staked.
+     * @param apy Annual Percentage Rate.
+     * @param interestModel Interest model of the stake.
+     * @param duration Full stake duration (in seconds).
+     * @param stakingPeriod Elapsed staking period (in seconds), only full periods earn interest.
+     * @return earningsInTokens Earnings in tokens.
+     * @return earningsPercentage Earnings in percentage.
+    */
+    function _calculateEarnings(
+        uint256 amount,
+        uint16 apy,
+        IStakingManagement.InterestModel interestModel,
+        uint256 duration,
+        uint256 stakingPeriod
+    ) internal pure returns (uint256 earningsInTokens, uint256 earningsPercentage) {
+        uint256 precision = Constants.DECIMALS_PRECISION;
+
+        if (interestModel == IStakingManagement.InterestModel.Simple) {
+            uint256 fullDays = stakingPeriod / Constants.SECONDS_IN_DAY;
+            earningsInTokens = (amount * apy * fullDays) / Constants.HUNDRED_PERCENT / Constants.DAYS_IN_YEAR;
+        } else {
+            uint256 periodLength = _compoundingPeriodLength(interestModel, duration);
+            earningsInTokens = CompoundMath.compound(amount, apy, periodLength, stakingPeriod / periodLength) - amount;
+        }
+
+        if (earningsInTokens > 0 && amount > 0) {
+            earningsPercentage = (earningsInTokens * Constants.HUNDRED_PERCENT * precision) / amount / precision;
         } else {
             earningsPercentage = 0;
         }
@@ -446,28 +894,67 @@ contract Staking is IStaking, Context {
         return (earningsInTokens, earningsPercentage);
     }
 
+    /**
+     * @dev Returns the compounding period length of a compound interest model.
+     * @param interestModel Compound interest model.
+     * @param duration Full stake duration (in seconds), used as the single period of CompoundAtMaturity.
+     * @return Period length (in seconds).
+    */
+    function _compoundingPeriodLength(
+        IStakingManagement.InterestModel interestModel,
+        uint256 duration
+    ) internal pure returns (uint256) {
+        if (interestModel == IStakingManagement.InterestModel.CompoundWeekly) return Constants.SECONDS_IN_WEEK;
+        if (interestModel == IStakingManagement.InterestModel.CompoundMonthly) return Constants.SECONDS_IN_MONTH;
+        if (interestModel == IStakingManagement.InterestModel.CompoundAtMaturity) return duration;
+        return Constants.SECONDS_IN_DAY;
+    }
+
+    /**
+     * @dev Returns the term of a stake opened now: the time left until the fixed maturity if the plan has one,
+     * the plan duration otherwise.
+     * @param plan Staking plan data.
+     */
+    function _stakingTerm(IStakingManagement.StakingPlan memory plan) internal view returns (uint256) {
+        if (plan.maturity == 0) return plan.duration;
+        return plan.maturity > block.timestamp ? plan.maturity - block.timestamp : 0;
+    }
+
     /**
      * @dev Creates a new stake record.
+     * @param staker Address owning the stake.
      * @param amount Amount of tokens to stake.
      * @param stakingPlan Index of the staking plan to stake for.
+     * @param reservedEarnings Earnings reserved in the staking pool size for the stake.
     */
-    function _createStakeRecord(uint256 amount, uint256 stakingPlan) internal returns (uint256 stakeId) {
+    function _createStakeRecord(
+        address staker,
+        uint256 amount,
+        uint256 stakingPlan,
+        uint256 reservedEarnings
+    ) internal returns (uint256 stakeId) {
         stakeId = _allStakeIds.length() + 1;
-        uint256 stakingPlanDuration = _stakingManagement.getStakingPlan(stakingPlan).duration;
+        IStakingManagement.StakingPlan memory plan = _stakingManagement.getStakingPlan(stakingPlan);
+        uint256 term = _stakingTerm(plan);
         _stakes[stakeId] = Stake({
-            staker: _msgSender(),
+            staker: staker,
             withdrawn: false,
             amount: amount,
             stakingPlanId: stakingPlan,
             startTimestamp: block.timestamp,
-            endTimestamp: block.timestamp + stakingPlanDuration,
+            endTimestamp: block.timestamp + term,
             earningsInTokens: 0,
             earningsPercentage: 0,
-            earlyWithdrawal: false
+            earlyWithdrawal: false,
+            apy: plan.apy,
+            duration: term,
+            interestModel: plan.interestModel,
+            penaltyInTokens: 0,
+            reservedEarnings: reservedEarnings
         });
 
         // check that stake successfully added to user stakes
-        if(!_userStakes[_msgSender()].add(stakeId)) {
+        if(!_userStakes[staker].add(stakeId)) {
             revert ErrorDuringAddingUserStake(stakeId);
         }
         // check that stake successfully added to all stakes
@@ -479,11 +966,62 @@ contract Staking is IStaking, Context {
             revert ErrorDuringAddingStakeToPlan(stakeId, stakingPlan);
         }
 
+        _planStakeHistory[stakingPlan].push(stakeId);
+        _earlyWithdrawalRules[stakeId] = _stakingManagement.getEarlyWithdrawalRules(stakingPlan);
+
+        _activePrincipal += amount;
+        _planPrincipal[stakingPlan] += amount;
+        _walletPrincipal[staker] += amount;
+        _walletActiveStakes[staker]++;
+        _activeStakes++;
+        _stakingManagement.checkStakingCapacity(
+            stakingPlan,
+            staker,
+            _planPrincipal[stakingPlan],
+            _activePrincipal,
+            _walletPrincipal[staker],
+            _walletActiveStakes[staker]
+        );
+
+        _mint(staker, stakeId);
+
         return stakeId;
     }
 
     /**
-     * @dev Transfers tokens to the staking pool.
+     * @dev Moves the stake to the new holder when a stake position token is transferred.
+     * Auto-renewal is reset, so the new holder decides whether the stake rolls over.
+    */
+    function _afterTokenTransfer(address from, address to, uint256 stakeId, uint256 batchSize) internal override {
+        super._afterTokenTransfer(from, to, stakeId, batchSize);
+        if (from == address(0) || to == address(0)) return;
+
+        Stake storage stakeRecord = _stakes[stakeId];
+        stakeRecord.staker = to;
+        delete _autoRenewals[stakeId];
+
+        // per-wallet caps only limit new stakes, a transfer may take the receiver above them
+        if (!stakeRecord.withdrawn) {
+            _walletPrincipal[from] -= stakeRecord.amount;
+            _walletPrincipal[to] += stakeRecord.amount;
+            _walletActiveStakes[from]--;
+            _walletActiveStakes[to]++;
+        } else {
+            _walletWithdrawnPrincipal[from] -= stakeRecord.amount;
+            _walletWithdrawnPrincipal[to] += stakeRecord.amount;
+        }
+
+        // check that stake successfully moved between user stakes
+        if (!_userStakes[from].remove(stakeId)) {
+            revert ErrorDuringRemovingUserStake(stakeId);
+        }
+        if (!_userStakes[to].add(stakeId)) {
+            revert ErrorDuringAddingUserStake(stakeId);
+        }
+    }
+
+    /**
+     * @dev Transfers tokens of the caller to the staking pool.
      * @param amount Amount of tokens to stake.
      * @param estimatedEarningsInTokens Estimated earnings in tokens.
     */
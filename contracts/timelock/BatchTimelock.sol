@@ -6,12 +6,14 @@ import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 
 import {TimelockRoles} from "../library/TimelockRoles.sol";
+import {Constants} from "../library/Constants.sol";
 import "./ITerminateable.sol";
 import "./IBatchTimelock.sol";
 import "./IVestingPool.sol";
 
 contract BatchTimelock is ITerminateable, IBatchTimelock, IVestingPool, AccessControl {
     using EnumerableSet for EnumerableSet.AddressSet;
+    using EnumerableSet for EnumerableSet.UintSet;
 
     /**
      * @notice Token that will be vested (IQT).
@@ -30,15 +32,55 @@ contract BatchTimelock is ITerminateable, IBatchTimelock, IVestingPool, AccessCo
     EnumerableSet.AddressSet internal _allReceivers;
 
     /**
-     * @notice Mapping of all timelocks.
+     * @notice Mapping of all timelocks by timelock ID.
      */
-    mapping(address => Timelock) internal _timelocks;
+    mapping(uint256 => Timelock) internal _timelocks;
+
+    /**
+     * @notice Mapping of timelock IDs per receiver.
+     */
+    mapping(address => EnumerableSet.UintSet) internal _receiverTimelocks;
+
+    /**
+     * @notice Latest timelock ID, timelock IDs start from 1.
+     */
+    uint256 internal _latestTimelockId;
+
+    /**
+     * @notice Milestones per timelock ID, timelocks vested by milestones only.
+     */
+    mapping(uint256 => Milestone[]) internal _milestones;
+
+    /**
+     * @notice Termination history per timelock ID.
+     */
+    mapping(uint256 => TerminationRecord[]) internal _terminationHistory;
 
     /**
      * @notice Checks if the timelock exists
      */
+    modifier onlyExistingTimelock(uint256 timelockId) {
+        if (_timelocks[timelockId].receiver == address(0)) {
+            revert TimelockDoesNotExist(timelockId);
+        }
+        _;
+    }
+
+    /**
+     * @notice Checks if the caller has any timelock
+     */
     modifier onlyReceiver() {
-        if (_timelocks[_msgSender()].receiver != _msgSender()) {
+        if (_receiverTimelocks[_msgSender()].length() == 0) {
+            revert InvalidReceiverAddress();
+        }
+        _;
+    }
+
+    /**
+     * @notice Checks if the caller is the receiver of the timelock
+     */
+    modifier onlyTimelockReceiver(uint256 timelockId) {
+        if (_timelocks[timelockId].receiver != _msgSender()) {
             revert InvalidReceiverAddress();
         }
         _;
@@ -73,28 +115,58 @@ contract BatchTimelock is ITerminateable, IBatchTimelock, IVestingPool, AccessCo
     /**
      * @inheritdoc ITerminateable
      */
-    function terminate(address receiver, uint256 terminationFrom) external onlyTerminationAdmin {
-        Timelock storage lock = _timelocks[receiver];
+    function terminate(
+        uint256 timelockId,
+        uint256 terminationFrom
+    ) external onlyTerminationAdmin onlyExistingTimelock(timelockId) {
+        Timelock storage lock = _timelocks[timelockId];
+        _checkTerminationNotEffective(timelockId);
 
         if (lock.timelockFrom >= terminationFrom) {
             revert TerminationTimeMustBeAfterLockStart(terminationFrom, lock.timelockFrom);
         }
 
+        uint256 vestingEnd = _vestingEnd(timelockId);
+        if (terminationFrom > vestingEnd) {
+            revert TerminationTimeMustBeBeforeVestingEnd(terminationFrom, vestingEnd);
+        }
+
+        // tokens already claimed cannot be taken back
+        uint256 vested = _vestedAmount(timelockId, terminationFrom);
+        if (vested < lock.releasedAmount) {
+            revert TerminationTimeBeforeClaimedTokens(timelockId, terminationFrom);
+        }
+
         lock.terminationFrom = terminationFrom;
         lock.isTerminated = true;
+        lock.forfeitedAmount = lock.totalAmount - vested;
+        _recordTermination(timelockId, terminationFrom, lock.forfeitedAmount);
 
-        emit TimelockTerminated(receiver, terminationFrom);
+        emit TimelockTerminated(lock.receiver, timelockId, terminationFrom);
+        emit TimelockForfeited(lock.receiver, timelockId, lock.forfeitedAmount);
     }
 
     /**
      * @inheritdoc ITerminateable
      */
-    function determinate(address receiver) external onlyTerminationAdmin {
-        Timelock storage lock = _timelocks[receiver];
+    function determinate(uint256 timelockId) external onlyTerminationAdmin onlyExistingTimelock(timelockId) {
+        Timelock storage lock = _timelocks[timelockId];
+        if (!lock.isTerminated) revert TimelockIsNotTerminated(timelockId);
+        _checkTerminationNotEffective(timelockId);
+
         lock.isTerminated = false;
         lock.terminationFrom = 0;
+        lock.forfeitedAmount = 0;
+        _recordTermination(timelockId, 0, 0);
+
+        emit TimelockDeterminated(lock.receiver, timelockId);
+    }
 
-        emit TimelockDeterminated(receiver);
+    /**
+     * @inheritdoc ITerminateable
+     */
+    function getTerminationHistory(uint256 timelockId) external view returns (TerminationRecord[] memory) {
+        return _terminationHistory[timelockId];
     }
 
     /**
@@ -108,13 +180,7 @@ contract BatchTimelock is ITerminateable, IBatchTimelock, IVestingPool, AccessCo
         uint256 receiversCount = receivers.length; // Caching the array length outside a loop
         unchecked {
             for (uint256 i = 0; i < receiversCount; ++i) {
-                _addTimelock(
-                    receivers[i].receiver,
-                    receivers[i].totalAmount,
-                    receivers[i].timelockFrom,
-                    receivers[i].cliffDuration,
-                    receivers[i].vestingDuration
-                );
+                _addTimelock(receivers[i]);
             }
         }
     }
@@ -128,8 +194,27 @@ contract BatchTimelock is ITerminateable, IBatchTimelock, IVestingPool, AccessCo
         uint256 timelockFrom,
         uint256 cliffDuration,
         uint256 vestingDuration
-    ) external onlyTimelockCreator {
-        _addTimelock(receiver, totalAmount, timelockFrom, cliffDuration, vestingDuration);
+    ) external onlyTimelockCreator returns (uint256 timelockId) {
+        return _addTimelock(
+            Receiver({
+                receiver: receiver,
+                totalAmount: totalAmount,
+                timelockFrom: timelockFrom,
+                cliffDuration: cliffDuration,
+                vestingDuration: vestingDuration,
+                curve: VestingCurve.Linear,
+                initialUnlock: 0,
+                stepDuration: 0,
+                milestones: new Milestone[](0)
+            })
+        );
+    }
+
+    /**
+     * @inheritdoc IBatchTimelock
+    */
+    function addTimelockWithSchedule(Receiver memory receiver) external onlyTimelockCreator returns (uint256 timelockId) {
+        return _addTimelock(receiver);
     }
 
     /**
@@ -140,11 +225,20 @@ contract BatchTimelock is ITerminateable, IBatchTimelock, IVestingPool, AccessCo
             revert ZeroClaimAmount();
         }
 
-        Timelock storage lock = _timelocks[_msgSender()];
+        uint256[] memory timelockIds = _receiverTimelocks[_msgSender()].values();
+        uint256 timelockCount = timelockIds.length; // Caching the array length outside a loop
         uint256 blockTimestamp = block.timestamp;
 
-        if (blockTimestamp < lock.timelockFrom + lock.cliffDuration) {
-            revert CliffPeriodNotEnded(blockTimestamp, lock.timelockFrom + lock.cliffDuration);
+        uint256 earliestUnlock = type(uint256).max;
+        for (uint256 i = 0; i < timelockCount; ++i) {
+            uint256 unlockStart = _unlockStart(_timelocks[timelockIds[i]]);
+            if (unlockStart < earliestUnlock) {
+                earliestUnlock = unlockStart;
+            }
+        }
+
+        if (blockTimestamp < earliestUnlock) {
+            revert CliffPeriodNotEnded(blockTimestamp, earliestUnlock);
         }
 
         uint256 withdrawable = getClaimableBalance(_msgSender());
@@ -153,50 +247,103 @@ contract BatchTimelock is ITerminateable, IBatchTimelock, IVestingPool, AccessCo
             revert AmountExceedsWithdrawableAllowance(amount, withdrawable);
         }
 
-        lock.releasedAmount += amount;
+        // draw from the oldest timelocks first
+        uint256 remaining = amount;
+        for (uint256 i = 0; i < timelockCount && remaining > 0; ++i) {
+            uint256 claimable = getTimelockClaimableBalance(timelockIds[i]);
+            uint256 released = claimable < remaining ? claimable : remaining;
+            if (released == 0) continue;
 
-        if (!_token.transferFrom(_vestingPool, _msgSender(), amount)) {
-            revert ErrorDuringTimelockClaimTransfer(_vestingPool, _msgSender(), amount);
+            _timelocks[timelockIds[i]].releasedAmount += released;
+            remaining -= released;
+
+            emit TokensClaimed(_msgSender(), timelockIds[i], released);
         }
 
-        emit TokensClaimed(_msgSender(), amount);
+        _transferClaimed(amount);
     }
 
     /**
      * @inheritdoc IBatchTimelock
      */
-    function getClaimableBalance(address receiver) public view returns (uint256) {
-        Timelock storage lock = _timelocks[receiver];
-        uint256 lockFromPlusCliff = lock.timelockFrom + lock.cliffDuration;
-        uint256 blockTimestampNow = block.timestamp;
+    function claimTimelock(uint256 timelockId, uint256 amount) external onlyTimelockReceiver(timelockId) {
+        if (amount == 0) {
+            revert ZeroClaimAmount();
+        }
 
-        if (blockTimestampNow < lockFromPlusCliff) {
-            return 0;
+        Timelock storage lock = _timelocks[timelockId];
+        uint256 blockTimestamp = block.timestamp;
+
+        if (blockTimestamp < _unlockStart(lock)) {
+            revert CliffPeriodNotEnded(blockTimestamp, _unlockStart(lock));
         }
 
-        uint256 vestedTime;
-        if (lock.isTerminated) {
-            uint256 effectiveTerminationTime = lock.terminationFrom < blockTimestampNow ? lock.terminationFrom : blockTimestampNow;
-            vestedTime = effectiveTerminationTime > lockFromPlusCliff
-                ? effectiveTerminationTime - lockFromPlusCliff
-                : 0;
-        } else {
-            uint256 vestingEnd = lockFromPlusCliff + lock.vestingDuration;
-            vestedTime = blockTimestampNow < vestingEnd
-                ? blockTimestampNow - lockFromPlusCliff
-                : lock.vestingDuration;
+        uint256 withdrawable = getTimelockClaimableBalance(timelockId);
+
+        if (amount > withdrawable) {
+            revert AmountExceedsWithdrawableAllowance(amount, withdrawable);
         }
 
-        uint256 vestedPortion = (lock.totalAmount * vestedTime) / lock.vestingDuration;
+        lock.releasedAmount += amount;
+
+        emit TokensClaimed(_msgSender(), timelockId, amount);
+
+        _transferClaimed(amount);
+    }
+
+    /**
+     * @inheritdoc IBatchTimelock
+     */
+    function getClaimableBalance(address receiver) public view returns (uint256) {
+        uint256 total = 0;
+        uint256 timelockCount = _receiverTimelocks[receiver].length(); // Caching the array length outside a loop
+        for (uint256 i = 0; i < timelockCount; ++i) {
+            total += getTimelockClaimableBalance(_receiverTimelocks[receiver].at(i));
+        }
+        return total;
+    }
+
+    /**
+     * @inheritdoc IBatchTimelock
+     */
+    function getTimelockClaimableBalance(uint256 timelockId) public view returns (uint256) {
+        Timelock storage lock = _timelocks[timelockId];
+        uint256 blockTimestampNow = block.timestamp;
+        uint256 effectiveTime = lock.isTerminated && lock.terminationFrom < blockTimestampNow
+            ? lock.terminationFrom
+            : blockTimestampNow;
+
+        uint256 vestedPortion = _vestedAmount(timelockId, effectiveTime);
+
+        return vestedPortion > lock.releasedAmount ? vestedPortion - lock.releasedAmount : 0;
+    }
+
+    /**
+     * @inheritdoc IBatchTimelock
+    */
+    function getTimelock(uint256 timelockId) external view returns (Timelock memory) {
+        return _timelocks[timelockId];
+    }
+
+    /**
+     * @inheritdoc IBatchTimelock
+    */
+    function getTimelockMilestones(uint256 timelockId) external view returns (Milestone[] memory) {
+        return _milestones[timelockId];
+    }
 
-        return vestedPortion - lock.releasedAmount;
+    /**
+     * @inheritdoc IBatchTimelock
+    */
+    function getReceiverTimelockIds(address receiver) external view returns (uint256[] memory) {
+        return _receiverTimelocks[receiver].values();
     }
 
     /**
      * @inheritdoc IBatchTimelock
     */
-    function getTimelock(address receiver) external view returns (Timelock memory) {
-        return _timelocks[receiver];
+    function getTimelocksAmount() external view returns (uint256) {
+        return _latestTimelockId;
     }
 
     /**
@@ -240,10 +387,36 @@ contract BatchTimelock is ITerminateable, IBatchTimelock, IVestingPool, AccessCo
      */
     function getTotalTokensLocked() external view returns (uint256) {
         uint256 total = 0;
-        uint256 receiverCount = _allReceivers.length(); // Caching the array length outside a loop
         unchecked {
-            for (uint256 i = 0; i < receiverCount; ++i) {
-                total += _timelocks[_allReceivers.at(i)].totalAmount;
+            for (uint256 timelockId = 1; timelockId <= _latestTimelockId; ++timelockId) {
+                total += _timelocks[timelockId].totalAmount - _timelocks[timelockId].forfeitedAmount;
+            }
+        }
+        return total;
+    }
+
+    /**
+     * @inheritdoc IVestingPool
+     */
+    function getTotalTokensForfeited() external view returns (uint256) {
+        uint256 total = 0;
+        unchecked {
+            for (uint256 timelockId = 1; timelockId <= _latestTimelockId; ++timelockId) {
+                total += _timelocks[timelockId].forfeitedAmount;
+            }
+        }
+        return total;
+    }
+
+    /**
+     * @inheritdoc IVestingPool
+     */
+    function getTotalTokensUnclaimed() external view returns (uint256) {
+        uint256 total = 0;
+        unchecked {
+            for (uint256 timelockId = 1; timelockId <= _latestTimelockId; ++timelockId) {
+                Timelock storage lock = _timelocks[timelockId];
+                total += lock.totalAmount - lock.forfeitedAmount - lock.releasedAmount;
             }
         }
         return total;
@@ -263,32 +436,215 @@ contract BatchTimelock is ITerminateable, IBatchTimelock, IVestingPool, AccessCo
         return address(_token);
     }
 
+    /**
+     * @notice Reverts if the timelock termination has already taken effect.
+     * @param timelockId Unique ID of the timelock.
+    */
+    function _checkTerminationNotEffective(uint256 timelockId) internal view {
+        Timelock storage lock = _timelocks[timelockId];
+        if (lock.isTerminated && lock.terminationFrom <= block.timestamp) {
+            revert TerminationAlreadyEffective(timelockId, lock.terminationFrom);
+        }
+    }
+
+    /**
+     * @notice Appends an entry to the termination history of the timelock.
+     * @param timelockId Unique ID of the timelock.
+     * @param terminationFrom Timestamp from which tokens are terminated, zero for a reversal.
+     * @param forfeitedAmount Amount of tokens forfeited by the termination.
+    */
+    function _recordTermination(uint256 timelockId, uint256 terminationFrom, uint256 forfeitedAmount) internal {
+        _terminationHistory[timelockId].push(
+            TerminationRecord({
+                terminationFrom: terminationFrom,
+                forfeitedAmount: forfeitedAmount,
+                recordedAt: block.timestamp,
+                recordedBy: _msgSender()
+            })
+        );
+    }
+
+    /**
+     * @notice Returns the amount of tokens of the timelock vested at `timestamp`, ignoring termination.
+     * @param timelockId Unique ID of the timelock.
+     * @param timestamp Timestamp to calculate the vested amount at.
+    */
+    function _vestedAmount(uint256 timelockId, uint256 timestamp) internal view returns (uint256) {
+        Timelock storage lock = _timelocks[timelockId];
+        if (timestamp < lock.timelockFrom) {
+            return 0;
+        }
+
+        uint256 unlocked = (lock.totalAmount * lock.initialUnlock) / Constants.HUNDRED_PERCENT;
+        uint256 lockFromPlusCliff = lock.timelockFrom + lock.cliffDuration;
+        if (timestamp < lockFromPlusCliff) {
+            return unlocked;
+        }
+
+        uint256 vesting = lock.totalAmount - unlocked;
+        if (lock.curve == VestingCurve.Milestones) {
+            Milestone[] storage milestones = _milestones[timelockId];
+            uint256 vestedShare = 0;
+            for (uint256 i = 0; i < milestones.length && milestones[i].timestamp <= timestamp; ++i) {
+                vestedShare += milestones[i].share;
+            }
+            return unlocked + (vesting * vestedShare) / Constants.HUNDRED_PERCENT;
+        }
+
+        if (lock.vestingDuration == 0) {
+            // cliff-only, everything is released at the cliff end
+            return lock.totalAmount;
+        }
+
+        uint256 vestedTime = timestamp - lockFromPlusCliff;
+        if (vestedTime > lock.vestingDuration) {
+            vestedTime = lock.vestingDuration;
+        }
+        if (lock.curve == VestingCurve.Periodic) {
+            // only completed steps are vested
+            vestedTime -= vestedTime % lock.stepDuration;
+        }
+
+        return unlocked + (vesting * vestedTime) / lock.vestingDuration;
+    }
+
+    /**
+     * @notice Returns the timestamp from which the timelock has claimable tokens.
+     * @param lock Timelock data.
+    */
+    function _unlockStart(Timelock storage lock) internal view returns (uint256) {
+        return lock.initialUnlock > 0 ? lock.timelockFrom : lock.timelockFrom + lock.cliffDuration;
+    }
+
+    /**
+     * @notice Returns the timestamp at which the timelock is fully vested.
+     * @param timelockId Unique ID of the timelock.
+    */
+    function _vestingEnd(uint256 timelockId) internal view returns (uint256) {
+        Timelock storage lock = _timelocks[timelockId];
+        uint256 lockFromPlusCliff = lock.timelockFrom + lock.cliffDuration;
+        if (lock.curve != VestingCurve.Milestones) {
+            return lockFromPlusCliff + lock.vestingDuration;
+        }
+
+        uint256 lastMilestone = _milestones[timelockId][_milestones[timelockId].length - 1].timestamp;
+        return lastMilestone > lockFromPlusCliff ? lastMilestone : lockFromPlusCliff;
+    }
+
+    /**
+     * @notice Reverts if the schedule of the receiver starts too far in the past, is too long
+     * or its vesting curve parameters are inconsistent.
+     * @param receiver Receiver and vesting schedule of the timelock.
+    */
+    function _checkVestingSchedule(Receiver memory receiver) internal view {
+        if (receiver.timelockFrom == 0) revert InvalidTimelockStart();
+        if (
+            block.timestamp > Constants.MAX_TIMELOCK_BACKDATE &&
+            receiver.timelockFrom < block.timestamp - Constants.MAX_TIMELOCK_BACKDATE
+        ) {
+            revert TimelockStartTooFarInPast(receiver.timelockFrom, block.timestamp - Constants.MAX_TIMELOCK_BACKDATE);
+        }
+
+        if (
+            receiver.cliffDuration > Constants.MAX_TIMELOCK_SCHEDULE_DURATION ||
+            receiver.vestingDuration > Constants.MAX_TIMELOCK_SCHEDULE_DURATION - receiver.cliffDuration
+        ) {
+            revert ScheduleDurationTooLong(
+                receiver.cliffDuration,
+                receiver.vestingDuration,
+                Constants.MAX_TIMELOCK_SCHEDULE_DURATION
+            );
+        }
+
+        bool hasVesting = receiver.curve == VestingCurve.Linear || receiver.curve == VestingCurve.Periodic;
+        if (hasVesting == (receiver.vestingDuration == 0)) {
+            revert InvalidVestingDuration(receiver.curve, receiver.vestingDuration);
+        }
+
+        if (receiver.initialUnlock > Constants.HUNDRED_PERCENT) revert InvalidInitialUnlock(receiver.initialUnlock);
+
+        bool isPeriodic = receiver.curve == VestingCurve.Periodic;
+        if (
+            isPeriodic
+                ? receiver.stepDuration == 0 || receiver.vestingDuration % receiver.stepDuration != 0
+                : receiver.stepDuration != 0
+        ) {
+            revert InvalidStepDuration(receiver.stepDuration, receiver.vestingDuration);
+        }
+
+        if (receiver.curve != VestingCurve.Milestones) {
+            if (receiver.milestones.length != 0) revert InvalidMilestones();
+            return;
+        }
+
+        if (receiver.milestones.length == 0) revert InvalidMilestones();
+        uint256 totalShare = 0;
+        for (uint256 i = 0; i < receiver.milestones.length; ++i) {
+            if (i > 0 && receiver.milestones[i].timestamp <= receiver.milestones[i - 1].timestamp) {
+                revert InvalidMilestones();
+            }
+            totalShare += receiver.milestones[i].share;
+        }
+        if (totalShare != Constants.HUNDRED_PERCENT) revert InvalidMilestones();
+
+        uint256 cliffEnd = receiver.timelockFrom + receiver.cliffDuration;
+        if (receiver.milestones[0].timestamp < cliffEnd) {
+            revert MilestoneBeforeCliffEnd(receiver.milestones[0].timestamp, cliffEnd);
+        }
+
+        uint256 lastMilestone = receiver.milestones[receiver.milestones.length - 1].timestamp;
+        uint256 latestMilestone = receiver.timelockFrom + Constants.MAX_TIMELOCK_SCHEDULE_DURATION;
+        if (lastMilestone > latestMilestone) revert MilestoneTooLate(lastMilestone, latestMilestone);
+    }
+
+    /**
+     * @notice Transfers claimed tokens from the vesting pool to the caller.
+     * @param amount Amount of tokens claimed.
+    */
+    function _transferClaimed(uint256 amount) internal {
+        if (!_token.transferFrom(_vestingPool, _msgSender(), amount)) {
+            revert ErrorDuringTimelockClaimTransfer(_vestingPool, _msgSender(), amount);
+        }
+    }
+
     /**
      * @notice Creates new timelock for the receiver.
-     * @param receiver Address of the receiver.
-     * @param totalAmount Total amount of tokens to be vested.
-     * @param timelockFrom Timestamp from which the timelock will start.
-     * @param cliffDuration Cliff time in seconds (6 months default).
-     * @param vestingDuration Vesting duration in seconds (18/24 months).
+     * @param receiver Receiver and vesting schedule of the timelock.
+     * @return timelockId Unique ID of the new timelock.
     */
-    function _addTimelock(address receiver, uint256 totalAmount, uint256 timelockFrom, uint256 cliffDuration, uint256 vestingDuration) internal onlyTimelockCreator {
-        if (receiver == address(0)) revert InvalidReceiverAddress();
-        if (totalAmount == 0) revert InvalidTimelockAmount();
-        if (_allReceivers.contains(receiver)) revert ReceiverAlreadyHasATimelock(receiver);
-        if (timelockFrom < 0) revert InvalidTimelockStart();
-
-        _timelocks[receiver] = Timelock({
-            receiver: receiver,
+    function _addTimelock(Receiver memory receiver) internal onlyTimelockCreator returns (uint256 timelockId) {
+        if (receiver.receiver == address(0)) revert InvalidReceiverAddress();
+        if (receiver.totalAmount == 0) revert InvalidTimelockAmount();
+        _checkVestingSchedule(receiver);
+
+        timelockId = ++_latestTimelockId;
+        _timelocks[timelockId] = Timelock({
+            receiver: receiver.receiver,
             isTerminated: false,
-            totalAmount: totalAmount,
+            totalAmount: receiver.totalAmount,
             releasedAmount: 0,
-            timelockFrom: timelockFrom,
-            cliffDuration: cliffDuration,
-            vestingDuration: vestingDuration,
-            terminationFrom: 0
+            timelockFrom: receiver.timelockFrom,
+            cliffDuration: receiver.cliffDuration,
+            vestingDuration: receiver.vestingDuration,
+            terminationFrom: 0,
+            forfeitedAmount: 0,
+            curve: receiver.curve,
+            initialUnlock: receiver.initialUnlock,
+            stepDuration: receiver.stepDuration
         });
-        _allReceivers.add(receiver);
-
-        emit TimelockCreated(receiver, totalAmount, timelockFrom, cliffDuration, vestingDuration);
+        for (uint256 i = 0; i < receiver.milestones.length; ++i) {
+            _milestones[timelockId].push(receiver.milestones[i]);
+        }
+        _receiverTimelocks[receiver.receiver].add(timelockId);
+        _allReceivers.add(receiver.receiver);
+
+        emit TimelockCreated(
+            receiver.receiver,
+            timelockId,
+            receiver.totalAmount,
+            receiver.timelockFrom,
+            receiver.cliffDuration,
+            receiver.vestingDuration
+        );
     }
 }
\ No newline at end of file
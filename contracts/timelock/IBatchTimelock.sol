@@ -19,6 +19,43 @@ interface IBatchTimelock {
      */
     error InvalidTimelockStart();
 
+    /**
+     * @notice Reverts when adding timelock that starts more than `MAX_TIMELOCK_BACKDATE` before the current time.
+     * @param timelockFrom Timestamp from which the timelock would start.
+     * @param earliestStart Earliest allowed timelock start.
+     */
+    error TimelockStartTooFarInPast(uint256 timelockFrom, uint256 earliestStart);
+
+    /**
+     * @notice Reverts if the vesting duration is zero for a linear or periodic timelock,
+     * or non-zero for a milestone or cliff-only timelock.
+     * @param curve Vesting curve of the timelock.
+     * @param vestingDuration Vesting duration in seconds.
+     */
+    error InvalidVestingDuration(VestingCurve curve, uint256 vestingDuration);
+
+    /**
+     * @notice Reverts if the cliff and vesting durations add up to more than `MAX_TIMELOCK_SCHEDULE_DURATION`.
+     * @param cliffDuration Cliff duration in seconds.
+     * @param vestingDuration Vesting duration in seconds.
+     * @param maxDuration Maximum schedule duration in seconds.
+     */
+    error ScheduleDurationTooLong(uint256 cliffDuration, uint256 vestingDuration, uint256 maxDuration);
+
+    /**
+     * @notice Reverts if the last milestone is more than `MAX_TIMELOCK_SCHEDULE_DURATION` after the timelock start.
+     * @param timestamp Timestamp of the last milestone.
+     * @param latestTimestamp Latest allowed milestone timestamp.
+     */
+    error MilestoneTooLate(uint256 timestamp, uint256 latestTimestamp);
+
+    /**
+     * @notice Reverts if the first milestone is before the cliff end of the timelock.
+     * @param timestamp Timestamp of the first milestone.
+     * @param cliffEnd Timestamp at which the cliff ends.
+     */
+    error MilestoneBeforeCliffEnd(uint256 timestamp, uint256 cliffEnd);
+
     /**
      * @notice Reverts if empty receivers array is passed.
      */
@@ -35,10 +72,29 @@ interface IBatchTimelock {
     error InvalidTimelockAmount();
 
     /**
-     * @notice Reverts if receiver already has a timelock.
-     * @param receiver Address of the receiver.
+     * @notice Reverts if the timelock does not exist.
+     * @param timelockId Unique ID of the timelock.
      */
-    error ReceiverAlreadyHasATimelock(address receiver);
+    error TimelockDoesNotExist(uint256 timelockId);
+
+    /**
+     * @notice Reverts if the initial unlock share is above 100%.
+     * @param initialUnlock Initial unlock share.
+     */
+    error InvalidInitialUnlock(uint16 initialUnlock);
+
+    /**
+     * @notice Reverts if the step duration of a periodic timelock is zero or does not divide the vesting duration.
+     * @param stepDuration Step duration in seconds.
+     * @param vestingDuration Vesting duration in seconds.
+     */
+    error InvalidStepDuration(uint256 stepDuration, uint256 vestingDuration);
+
+    /**
+     * @notice Reverts if milestones are passed for a timelock that is not vested by milestones, or if the milestones
+     * are empty, not strictly ascending or their shares do not add up to 100%.
+     */
+    error InvalidMilestones();
 
     /**
      * @notice Reverts if zero claim amount is passed.
@@ -63,13 +119,40 @@ interface IBatchTimelock {
      */
     error CallerIsNotATimelockCreator();
 
+    /**
+     * @notice Vesting curve of the tokens that are not unlocked at the timelock start.
+     * Linear vests continuously after the cliff, Periodic vests in equal steps of `stepDuration` after the cliff,
+     * Milestones vests the share of each milestone at its timestamp, which must not be before the cliff end,
+     * CliffOnly vests everything at the cliff end and requires a zero vesting duration.
+     */
+    enum VestingCurve {
+        Linear,
+        Periodic,
+        Milestones,
+        CliffOnly
+    }
+
+    /**
+     * @notice Milestone of a timelock vested by milestones.
+     * @param timestamp Timestamp at which the milestone vests.
+     * @param share Share of the tokens vested by the milestone, excluding the initial unlock (100% = 10000).
+     */
+    struct Milestone {
+        uint256 timestamp;
+        uint16 share;
+    }
+
     /**
      * @notice Token receiver struct that is used for adding _timelocks for timelock.
      * @param receiver Address of the receiver.
      * @param totalAmount Total amount of tokens to be vested.
-     * @param timelockFrom Timestamp from which the timelock will start.
+     * @param timelockFrom Timestamp from which the timelock will start (TGE).
      * @param cliffDuration Cliff time in months (6 months default).
-     * @param vestingDuration Vesting duration in months (18/24 months).
+     * @param vestingDuration Vesting duration in months (18/24 months), zero for the milestone and cliff-only curves.
+     * @param curve Vesting curve after the cliff.
+     * @param initialUnlock Share of the tokens unlocked at `timelockFrom` (100% = 10000).
+     * @param stepDuration Step duration in seconds, periodic curve only.
+     * @param milestones Milestones in ascending order from the cliff end, milestone curve only.
      */
     struct Receiver {
         address receiver;
@@ -77,10 +160,14 @@ interface IBatchTimelock {
         uint256 timelockFrom;
         uint256 cliffDuration;
         uint256 vestingDuration;
+        VestingCurve curve;
+        uint16 initialUnlock;
+        uint256 stepDuration;
+        Milestone[] milestones;
     }
 
     /**
-     * @notice Timelock struct that is used for vesting.
+     * @notice Timelock (grant) struct that is used for vesting. A receiver may hold any number of timelocks.
      * @param receiver Address of the receiver.
      * @param totalAmount Total amount of tokens to be vested.
      * @param releasedAmount Amount of tokens released.
@@ -89,6 +176,10 @@ interface IBatchTimelock {
      * @param vestingDuration Vesting duration in months (18/24 months).
      * @param terminationFrom Timestamp from which tokens will be terminated.
      * @param isTerminated Flag that indicates if timelock is terminated.
+     * @param forfeitedAmount Amount of tokens that will not vest because of the termination.
+     * @param curve Vesting curve after the cliff.
+     * @param initialUnlock Share of the tokens unlocked at `timelockFrom` (100% = 10000).
+     * @param stepDuration Step duration in seconds, periodic curve only.
      */
     struct Timelock {
         address receiver;
@@ -99,23 +190,36 @@ interface IBatchTimelock {
         uint256 cliffDuration;
         uint256 vestingDuration;
         uint256 terminationFrom;
+        uint256 forfeitedAmount;
+        VestingCurve curve;
+        uint16 initialUnlock;
+        uint256 stepDuration;
     }
 
     /**
      * @notice Emits when timelock is created.
      * @param receiver Address of the receiver.
+     * @param timelockId Unique ID of the timelock.
      * @param totalAmount Total amount of tokens to be vested.
      * @param cliffDuration Cliff time in seconds (6 months default).
      * @param vestingDuration Vesting duration in seconds (18/24 months).
      */
-    event TimelockCreated(address indexed receiver, uint256 totalAmount, uint256 timelockFrom, uint256 cliffDuration, uint256 vestingDuration);
+    event TimelockCreated(
+        address indexed receiver,
+        uint256 indexed timelockId,
+        uint256 totalAmount,
+        uint256 timelockFrom,
+        uint256 cliffDuration,
+        uint256 vestingDuration
+    );
 
     /**
-     * @notice Emits when tokens are claimed.
+     * @notice Emits when tokens are claimed from a timelock.
      * @param receiver Address of the claimer.
+     * @param timelockId Unique ID of the timelock.
      * @param amount Amount of tokens claimed.
      */
-    event TokensClaimed(address indexed receiver, uint256 amount);
+    event TokensClaimed(address indexed receiver, uint256 indexed timelockId, uint256 amount);
 
     /**
      * @notice Creates timelock for token receivers in a batch mode.
@@ -124,33 +228,77 @@ interface IBatchTimelock {
     function addTimelockBatch(Receiver[] memory receivers) external;
 
     /**
-     * @notice Creates timelock for token receiver.
+     * @notice Creates timelock with linear vesting after the cliff for token receiver.
      * @param receiver Address of the receiver.
      * @param totalAmount Total amount of tokens to be vested.
      * @param timelockFrom Timestamp from which the timelock will start.
      * @param cliffDuration Cliff time in seconds (6 months default).
      * @param vestingDuration Vesting duration in seconds (18/24 months).
+     * @return timelockId Unique ID of the new timelock.
+    */
+    function addTimelock(
+        address receiver,
+        uint256 totalAmount,
+        uint256 timelockFrom,
+        uint256 cliffDuration,
+        uint256 vestingDuration
+    ) external returns (uint256 timelockId);
+
+    /**
+     * @notice Creates timelock with an initial unlock and a vesting curve for token receiver.
+     * @param receiver Receiver and vesting schedule of the timelock.
+     * @return timelockId Unique ID of the new timelock.
     */
-    function addTimelock(address receiver, uint256 totalAmount, uint256 timelockFrom, uint256 cliffDuration, uint256 vestingDuration) external;
+    function addTimelockWithSchedule(Receiver memory receiver) external returns (uint256 timelockId);
 
     /**
-     * @notice Claims tokens for the receiver.
+     * @notice Claims tokens for the receiver across all of the receiver's timelocks, oldest timelocks first.
      * @param amount Amount of tokens to be claimed.
      */
     function claim(uint256 amount) external;
 
+    /**
+     * @notice Claims tokens of a single timelock of the receiver.
+     * @param timelockId Unique ID of the timelock.
+     * @param amount Amount of tokens to be claimed.
+     */
+    function claimTimelock(uint256 timelockId, uint256 amount) external;
+
     /**
      * @notice Returns the timelock data.
+     * @param timelockId Unique ID of the timelock.
+     */
+    function getTimelock(uint256 timelockId) external view returns (Timelock memory);
+
+    /**
+     * @notice Returns the milestones of a timelock vested by milestones.
+     * @param timelockId Unique ID of the timelock.
+     */
+    function getTimelockMilestones(uint256 timelockId) external view returns (Milestone[] memory);
+
+    /**
+     * @notice Returns the IDs of all timelocks of the receiver.
      * @param receiver Address of the receiver.
      */
-    function getTimelock(address receiver) external view returns (Timelock memory);
+    function getReceiverTimelockIds(address receiver) external view returns (uint256[] memory);
 
     /**
-     * @notice Returns the amount of tokens that are currently allowed for claim.
+     * @notice Returns the amount of timelocks created, which is also the latest timelock ID.
+     */
+    function getTimelocksAmount() external view returns (uint256);
+
+    /**
+     * @notice Returns the amount of tokens that are currently allowed for claim across all of the receiver's timelocks.
      * @param receiver Address of the receiver.
      */
     function getClaimableBalance(address receiver) external view returns (uint256);
 
+    /**
+     * @notice Returns the amount of tokens of a single timelock that are currently allowed for claim.
+     * @param timelockId Unique ID of the timelock.
+     */
+    function getTimelockClaimableBalance(uint256 timelockId) external view returns (uint256);
+
     /**
      * @notice Returns the array of timelock receivers.
      * @param offset Offset from which receivers will be returned.
@@ -9,29 +9,89 @@ interface ITerminateable {
     */
     error TerminationTimeMustBeAfterLockStart(uint256 terminationFrom, uint256 lockFrom);
 
+    /**
+     * @notice Reverts if termination time is after the vesting end.
+     * @param terminationFrom Timestamp from which tokens will be terminated.
+     * @param vestingEnd Timestamp at which the timelock is fully vested.
+    */
+    error TerminationTimeMustBeBeforeVestingEnd(uint256 terminationFrom, uint256 vestingEnd);
+
+    /**
+     * @notice Reverts if the receiver has already claimed more than would be vested at the termination time.
+     * @param timelockId Unique ID of the timelock.
+     * @param terminationFrom Timestamp from which tokens will be terminated.
+    */
+    error TerminationTimeBeforeClaimedTokens(uint256 timelockId, uint256 terminationFrom);
+
+    /**
+     * @notice Reverts if the termination has already taken effect and can no longer be moved or reversed.
+     * @param timelockId Unique ID of the timelock.
+     * @param terminationFrom Timestamp from which tokens are terminated.
+    */
+    error TerminationAlreadyEffective(uint256 timelockId, uint256 terminationFrom);
+
+    /**
+     * @notice Reverts if the timelock is not terminated.
+     * @param timelockId Unique ID of the timelock.
+    */
+    error TimelockIsNotTerminated(uint256 timelockId);
+
+    /**
+     * @notice Termination history entry, a reversal is recorded with zero `terminationFrom`.
+     * @param terminationFrom Timestamp from which tokens are terminated.
+     * @param forfeitedAmount Amount of tokens forfeited by the termination.
+     * @param recordedAt Timestamp at which the termination was set, moved or reversed.
+     * @param recordedBy Address of the termination admin.
+     */
+    struct TerminationRecord {
+        uint256 terminationFrom;
+        uint256 forfeitedAmount;
+        uint256 recordedAt;
+        address recordedBy;
+    }
+
     /**
      * @notice Emits when timelock is terminated.
      * @param receiver Address of the receiver.
+     * @param timelockId Unique ID of the timelock.
      * @param terminationFrom Timestamp from which tokens will be terminated.
      */
-    event TimelockTerminated(address indexed receiver, uint256 terminationFrom);
+    event TimelockTerminated(address indexed receiver, uint256 indexed timelockId, uint256 terminationFrom);
 
     /**
-     * @notice Emits when timelock is determinated.
+     * @notice Emits along with `TimelockTerminated` with the amount of tokens forfeited by the termination.
      * @param receiver Address of the receiver.
+     * @param timelockId Unique ID of the timelock.
+     * @param forfeitedAmount Amount of tokens that will not vest and return to the vesting pool.
      */
-    event TimelockDeterminated(address indexed receiver);
+    event TimelockForfeited(address indexed receiver, uint256 indexed timelockId, uint256 forfeitedAmount);
 
     /**
-     * @notice Terminates timelock for the receiver.
+     * @notice Emits when timelock is determinated.
      * @param receiver Address of the receiver.
+     * @param timelockId Unique ID of the timelock.
+     */
+    event TimelockDeterminated(address indexed receiver, uint256 indexed timelockId);
+
+    /**
+     * @notice Terminates a timelock, other timelocks of the same receiver are not affected.
+     * Tokens that would vest after `terminationFrom` are forfeited and excluded from the vesting pool totals.
+     * The termination time must be within the vesting schedule and must not cut off tokens that are already claimed.
+     * A termination can be moved until it takes effect.
+     * @param timelockId Unique ID of the timelock.
      * @param terminationFrom Timestamp from which tokens will be terminated.
      */
-    function terminate(address receiver, uint256 terminationFrom) external;
+    function terminate(uint256 timelockId, uint256 terminationFrom) external;
 
     /**
-     * @notice Determinates timelock for the receiver.
-     * @param receiver Address of the receiver.
+     * @notice Determinates a timelock, only possible until the termination takes effect.
+     * @param timelockId Unique ID of the timelock.
+     */
+    function determinate(uint256 timelockId) external;
+
+    /**
+     * @notice Returns all terminations, moves and reversals of a timelock in chronological order.
+     * @param timelockId Unique ID of the timelock.
      */
-    function determinate(address receiver) external;
+    function getTerminationHistory(uint256 timelockId) external view returns (TerminationRecord[] memory);
 }
\ No newline at end of file
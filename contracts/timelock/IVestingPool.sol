@@ -8,10 +8,20 @@ interface IVestingPool {
     function getCurrentAllowance() external view returns (uint256);
 
     /**
-     * @notice Returns the amount of tokens that are currently locked.
+     * @notice Returns the amount of tokens that are currently locked, forfeited tokens excluded.
      */
     function getTotalTokensLocked() external view returns (uint256);
 
+    /**
+     * @notice Returns the amount of tokens forfeited by terminated timelocks, which can be reallocated.
+     */
+    function getTotalTokensForfeited() external view returns (uint256);
+
+    /**
+     * @notice Returns the amount of locked tokens that are not claimed yet, which the vesting pool still has to cover.
+     */
+    function getTotalTokensUnclaimed() external view returns (uint256);
+
     /**
      * @notice Returns the address of vesting pool.
      */
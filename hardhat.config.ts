@@ -15,6 +15,9 @@ import './tasks/deploy-batch-timelock';
 import './tasks/deploy-staking';
 import './tasks/deploy-staking-management';
 import './tasks/batch-timelock';
+import './tasks/export-timelocks';
+import './tasks/staking-report';
+import './tasks/staking-solvency';
 
 const DEPLOYMENT_PRIVATE_KEY = env.parsed?.DEPLOYMENT_PRIVATE_KEY;
 const accounts = DEPLOYMENT_PRIVATE_KEY ? [DEPLOYMENT_PRIVATE_KEY] : [];
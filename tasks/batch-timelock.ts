@@ -1,65 +1,248 @@
 import { task, types } from "hardhat/config";
-import { BatchTimelock__factory } from "../typechain";
+import { TransactionReceipt, formatUnits, keccak256 } from "ethers";
+import { BatchTimelock, BatchTimelock__factory, IERC20Metadata__factory } from "../typechain";
+import { CsvReceiver, hashReceivers, parseReceivers, readCSV, toReceiverStruct } from "./utils/timelock-csv";
 import fs from "fs";
-import csv from "csv-parser";
+
+/**
+ * Single submitted chunk of the timelock batch.
+ */
+type JournalChunk = {
+  chunk: number;
+  txHash: string;
+  nonce: number;
+  status: "pending" | "confirmed";
+  blockNumber?: number;
+  receivers: string[];
+  receiversHash: string;
+  timelockIds?: string[];
+};
+
+/**
+ * Progress journal of the `add:timelock-batch` task, stored next to the CSV file by default.
+ */
+type Journal = {
+  batchTimelock: string;
+  filepath: string;
+  fileHash: string;
+  iterations: number;
+  chunks: JournalChunk[];
+};
+
+const findReceiversWithTimelocks = async (contract: BatchTimelock, receivers: CsvReceiver[]): Promise<Set<string>> => {
+  const addresses = [...new Set(receivers.map((receiver) => receiver.receiver as string))];
+  const timelockIds = await Promise.all(addresses.map(async (address) => contract.getReceiverTimelockIds(address)));
+  return new Set(addresses.filter((_, index) => timelockIds[index].length > 0));
+};
+
+/**
+ * Returns the IDs of the timelocks created in the transaction, in creation order.
+ */
+const getCreatedTimelockIds = (contract: BatchTimelock, receipt: TransactionReceipt): string[] =>
+  receipt.logs
+    .map((log) => contract.interface.parseLog({ topics: [...log.topics], data: log.data }))
+    .filter((event) => event?.name === "TimelockCreated")
+    .map((event) => event!.args.timelockId.toString());
+
+/**
+ * Loads the progress journal, or creates an empty one, and checks that it was created for the same import.
+ * @param journalPath Journal file path.
+ * @param expected Journal header of the current run.
+ * @param chunkHash Returns the hash of the parsed receivers of a chunk in the current run.
+ */
+const loadJournal = (
+  journalPath: string,
+  expected: Omit<Journal, "chunks">,
+  chunkHash: (chunk: number) => string
+): Journal => {
+  if (!fs.existsSync(journalPath)) {
+    return { ...expected, chunks: [] };
+  }
+
+  const journal = JSON.parse(fs.readFileSync(journalPath, "utf8")) as Journal;
+  if (journal.batchTimelock.toLowerCase() !== expected.batchTimelock.toLowerCase()) {
+    throw new Error(`Journal ${journalPath} belongs to another BatchTimelock contract (${journal.batchTimelock})`);
+  }
+  // chunk boundaries depend on the number of iterations, resuming with another value would add timelocks twice
+  if (journal.iterations !== expected.iterations) {
+    throw new Error(`Journal ${journalPath} was created with ${journal.iterations} iterations, re-run the task with the same value`);
+  }
+  // chunks are identified by their index only, so editing the CSV would shift rows between chunks
+  if (journal.fileHash !== expected.fileHash) {
+    throw new Error(`Journal ${journalPath} was created for another version of ${journal.filepath}, restore it to resume`);
+  }
+  // the task defaults change the parsed receivers even if the file is the same
+  const changed = journal.chunks.find((entry) => entry.receiversHash !== chunkHash(entry.chunk));
+  if (changed) {
+    throw new Error(`Batch ${changed.chunk + 1} in ${journalPath} was created with other receivers, re-run the task with the same defaults`);
+  }
+
+  return journal;
+};
+
+const saveJournal = (journalPath: string, journal: Journal): void => {
+  fs.writeFileSync(journalPath, JSON.stringify(journal, null, 2));
+};
 
 task("add:timelock-batch", "Adds a batch of timelocks from a CSV file")
   .addParam("filepath", "The CSV file path", undefined, types.string, false)
   .addParam("batchTimelock", "The BatchTimelock contract address", undefined, types.string, false)
-  .addParam("timelockFrom", "The timelock start date", undefined, types.int, false)
-  .addParam("cliffDuration", "The cliff duration in seconds", undefined, types.int, false)
-  .addParam("vestingDuration", "The vesting duration in seconds", undefined, types.int, false)
   .addParam("iterations", "The number of batches to split the array", undefined, types.int, false)
-  .setAction(async ({ filepath, batchTimelock, timelockFrom, cliffDuration, vestingDuration, iterations }, hre) => {
+  .addOptionalParam("timelockFrom", "The default timelock start (unix timestamp or ISO date)", undefined, types.string)
+  .addOptionalParam("cliffDuration", "The default cliff duration (seconds or e.g. 6mo, 180d)", undefined, types.string)
+  .addOptionalParam("vestingDuration", "The default vesting duration (seconds or e.g. 1y, 365d)", undefined, types.string)
+  .addOptionalParam("journal", "The progress journal path (defaults to <filepath>.journal.json)", undefined, types.string)
+  .addOptionalParam("confirmations", "The number of confirmations to wait for each batch", 1, types.int)
+  .addFlag("dryRun", "Validate the CSV and print a simulation report without sending transactions")
+  .addFlag("allowDuplicates", "Add a separate timelock for every row, even for fully identical rows")
+  .setAction(async ({ filepath, batchTimelock, timelockFrom, cliffDuration, vestingDuration, iterations, journal, confirmations, dryRun, allowDuplicates }, hre) => {
 
     if (!filepath) throw new Error("You must specify a CSV file path");
     if (!batchTimelock) throw new Error("You must specify a BatchTimelock contract address");
-    if (!timelockFrom) throw new Error("You must specify a timelock start date");
-    if (!cliffDuration) throw new Error("You must specify a cliff duration in seconds");
-    if (!vestingDuration) throw new Error("You must specify a vesting duration in seconds");
     if (!iterations) throw new Error("You must specify the number of batches to split the array");
 
     const { ethers } = hre;
 
-    const readReceiversFromCSV = (filePath: string): Promise<any[]> => {
-      return new Promise((resolve, reject) => {
-        const receivers: object[] = [];
-        fs.createReadStream(filePath)
-          .pipe(csv())
-          .on("data", (data) => receivers.push(data))
-          .on("end", () => resolve(receivers))
-          .on("error", reject);
-      });
-    };
-
-    const receivers = await readReceiversFromCSV(filepath);
-
-    const formattedReceivers = (receivers as any).map((receiver: any) => ({
-      receiver: receiver.staker,
-      totalAmount: ethers.parseEther(receiver.reward),
-      timelockFrom: timelockFrom,
-      cliffDuration: cliffDuration,
-      vestingDuration: vestingDuration
-    }));
-
     const [deployer] = await ethers.getSigners();
     const batchTimelockContract = BatchTimelock__factory.connect(batchTimelock, deployer);
+    const token = IERC20Metadata__factory.connect(await batchTimelockContract.getTokenAddress(), deployer);
+    const decimals = await token.decimals();
+
+    const content = await readCSV(filepath);
+    const { receivers: formattedReceivers, issues, warnings } = parseReceivers(
+      content,
+      { start: timelockFrom, cliff: cliffDuration, vesting: vestingDuration },
+      decimals,
+      true
+    );
+
     const batchLength = Math.ceil(formattedReceivers.length / iterations);
+    const chunkAt = (i: number): CsvReceiver[] => formattedReceivers.slice(i * batchLength, (i + 1) * batchLength);
+
+    const journalPath: string = journal ?? `${filepath}.journal.json`;
+    const fileHash = keccak256(fs.readFileSync(filepath));
+    const progress = loadJournal(journalPath, { batchTimelock, filepath, fileHash, iterations }, (i) => hashReceivers(chunkAt(i)));
+    const isConfirmed = (i: number): boolean =>
+      progress.chunks.some((entry) => entry.chunk === i && entry.status === "confirmed");
+
+    if (dryRun) {
+      const vestingPool = await batchTimelockContract.getVestingPoolAddress();
+      const allowance = await batchTimelockContract.getCurrentAllowance();
+      const poolBalance = await token.balanceOf(vestingPool);
+      // existing timelocks are claimed from the same allowance and balance, forfeited tokens excluded
+      const unclaimed = await batchTimelockContract.getTotalTokensUnclaimed();
+      const pending = Array.from({ length: iterations }, (_, i) => i)
+        .filter((i) => !isConfirmed(i))
+        .flatMap((i) => chunkAt(i));
+      const total = pending.reduce((sum, receiver) => sum + BigInt(receiver.totalAmount), 0n);
+      const required = total + unclaimed;
+      const receiversWithTimelocks = await findReceiversWithTimelocks(batchTimelockContract, pending);
+
+      console.log(`CSV rows: ${content.rows.length}`);
+      console.log(`Valid rows: ${formattedReceivers.length}`);
+      console.log(`Already added according to ${journalPath}: ${formattedReceivers.length - pending.length}`);
+      console.log(`To be added: ${pending.length}`);
+      issues.forEach((issue) => console.log(`  row ${issue.row}: ${issue.message}`));
+      warnings.forEach((warning) => console.log(`  row ${warning.row}: warning, ${warning.message}`));
+      receiversWithTimelocks.forEach((receiver) => console.log(`  ${receiver}: already has a timelock, another one will be added`));
 
+      console.log(`Total tokens to lock: ${formatUnits(total, decimals)}`);
+      console.log(`Unclaimed tokens of existing timelocks: ${formatUnits(unclaimed, decimals)}`);
+      console.log(`Total tokens required: ${formatUnits(required, decimals)}`);
+      console.log(`Current allowance: ${formatUnits(allowance, decimals)}${allowance < required ? " (INSUFFICIENT)" : ""}`);
+      console.log(`Vesting pool balance: ${formatUnits(poolBalance, decimals)}${poolBalance < required ? " (INSUFFICIENT)" : ""}`);
+
+      let totalGas = 0n;
+      for (let i = 0; i < iterations; i++) {
+        const batch = chunkAt(i).map(toReceiverStruct);
+        if (batch.length === 0 || isConfirmed(i)) continue;
+
+        try {
+          const estimate = await batchTimelockContract.addTimelockBatch.estimateGas(batch);
+          totalGas += estimate;
+          console.log(`Batch ${i + 1}: ${batch.length} receiver(s), estimated gas ${estimate}`);
+        } catch (error) {
+          console.log(`Batch ${i + 1}: ${batch.length} receiver(s), gas estimation failed: ${(error as Error).message}`);
+        }
+      }
+      console.log(`Total estimated gas: ${totalGas}`);
+
+      return;
+    }
+
+    if (issues.length > 0) {
+      issues.forEach((issue) => console.error(`  row ${issue.row}: ${issue.message}`));
+      throw new Error(`${filepath} has ${issues.length} issue(s), run the task with --dry-run for a full report`);
+    }
+
+    if (warnings.length > 0 && !allowDuplicates) {
+      warnings.forEach((warning) => console.error(`  row ${warning.row}: ${warning.message}`));
+      throw new Error(`${filepath} has ${warnings.length} identical row(s), remove them or re-run the task with --allow-duplicates`);
+    }
+
+    if (progress.chunks.length > 0) {
+      console.log(`Resuming from ${journalPath} (${progress.chunks.length} chunk(s) already submitted)`);
+    }
+
+    // a receiver may hold several timelocks, so the journal is the only record of what has been added already
     for (let i = 0; i < iterations; i++) {
-      const batch = formattedReceivers.slice(i * batchLength, (i + 1) * batchLength);
+      const batch = chunkAt(i).map(toReceiverStruct);
+      if (batch.length === 0 || isConfirmed(i)) continue;
+
+      let nonce: number | undefined;
+      const submitted = progress.chunks.find((entry) => entry.chunk === i);
+      if (submitted) {
+        const previousReceipt = await ethers.provider.getTransactionReceipt(submitted.txHash);
+        if (!previousReceipt) {
+          if (await ethers.provider.getTransaction(submitted.txHash)) {
+            throw new Error(`Batch ${i + 1} transaction ${submitted.txHash} is not mined yet, wait for it and re-run the task`);
+          }
+          // the transaction was dropped, re-sending it with the same nonce makes sure at most one of them is mined,
+          // unless the nonce has been used by another transaction in the meantime
+          const latestNonce = await ethers.provider.getTransactionCount(deployer.address, "latest");
+          nonce = submitted.nonce >= latestNonce ? submitted.nonce : undefined;
+          console.log(`Batch ${i + 1}: transaction ${submitted.txHash} was dropped, sending it again`);
+        } else if (previousReceipt.status === 1) {
+          submitted.status = "confirmed";
+          submitted.blockNumber = previousReceipt.blockNumber;
+          submitted.timelockIds = getCreatedTimelockIds(batchTimelockContract, previousReceipt);
+          saveJournal(journalPath, progress);
+          console.log(`Batch ${i + 1}: already added in ${submitted.txHash}`);
+          continue;
+        }
+        // the previous attempt reverted or was dropped, forget it and send the chunk again
+        progress.chunks.splice(progress.chunks.indexOf(submitted), 1);
+      }
+
       const estimate = await batchTimelockContract.addTimelockBatch.estimateGas(batch);
+      console.log(`Batch ${i + 1}: sending ${batch.length} receiver(s), estimated gas ${estimate}`);
 
-      console.log('Estimate', estimate);
+      const tx = await batchTimelockContract.addTimelockBatch(batch, { nonce });
+      const entry: JournalChunk = {
+        chunk: i,
+        txHash: tx.hash,
+        nonce: tx.nonce,
+        status: "pending",
+        receivers: batch.map((receiver) => receiver.receiver as string),
+        receiversHash: hashReceivers(chunkAt(i)),
+      };
+      progress.chunks.push(entry);
+      saveJournal(journalPath, progress);
+      console.log(`Batch ${i + 1} transaction hash: ${tx.hash}`);
 
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const receipt = await tx.wait(confirmations);
+      if (!receipt || receipt.status !== 1) {
+        throw new Error(`Batch ${i + 1} transaction ${tx.hash} failed, re-run the task to resume`);
+      }
 
-      // const tx = await batchTimelockContract.addTimelockBatch(batch);
-      // console.log(`Batch ${i + 1} transaction hash: ${tx.hash}`);
-      // await tx.wait();
+      entry.status = "confirmed";
+      entry.blockNumber = receipt.blockNumber;
+      entry.timelockIds = getCreatedTimelockIds(batchTimelockContract, receipt);
+      saveJournal(journalPath, progress);
+      console.log(`Batch ${i + 1}: created timelock IDs ${entry.timelockIds.join(", ")}`);
     }
 
-    console.log("Timelocks added successfully.");
+    console.log(`Timelocks added successfully. Progress journal: ${journalPath}`);
   });
 
 export default {};
@@ -0,0 +1,188 @@
+import { task, types } from "hardhat/config";
+import { formatUnits } from "ethers";
+import { BatchTimelock__factory, IERC20Metadata__factory } from "../typechain";
+import { VESTING_CURVES, parseReceivers, readCSV } from "./utils/timelock-csv";
+import { toCSV } from "./utils/csv";
+import fs from "fs";
+import path from "path";
+
+/**
+ * State of a single timelock, with amounts in token units.
+ */
+type TimelockSnapshot = {
+  timelockId: number;
+  receiver: string;
+  totalAmount: string;
+  releasedAmount: string;
+  claimable: string;
+  timelockFrom: number;
+  cliffEnd: number;
+  vestingEnd: number;
+  curve: string;
+  initialUnlock: string;
+  stepDuration: number;
+  milestones: string;
+  isTerminated: boolean;
+  terminationFrom: number;
+  forfeitedAmount: string;
+};
+
+type Milestone = { timestamp: bigint | number | string; share: bigint | number | string };
+
+const CURVE_NAMES = Object.fromEntries(Object.entries(VESTING_CURVES).map(([name, curve]) => [curve, name]));
+
+/**
+ * Formats basis points as a percentage accepted by the import CSV, e.g. `12.5%`.
+ */
+const formatShare = (share: bigint | number | string): string => `${Number(share) / 100}%`;
+
+/**
+ * Formats milestones in the `date:percentage` form of the import CSV.
+ */
+const formatMilestones = (milestones: Milestone[]): string =>
+  milestones.map(({ timestamp, share }) => `${timestamp}:${formatShare(share)}`).join(";");
+
+task("export:timelocks", "Exports all BatchTimelock timelocks and reconciles them against an import CSV")
+  .addParam("batchTimelock", "The BatchTimelock contract address", undefined, types.string, false)
+  .addParam("output", "The snapshot file path (.csv or .json)", undefined, types.string, false)
+  .addOptionalParam("pageSize", "The number of timelocks to read per page", 100, types.int)
+  .addOptionalParam("importFile", "The original import CSV to reconcile against", undefined, types.string)
+  .addOptionalParam("timelockFrom", "The default timelock start used by the import", undefined, types.string)
+  .addOptionalParam("cliffDuration", "The default cliff duration used by the import", undefined, types.string)
+  .addOptionalParam("vestingDuration", "The default vesting duration used by the import", undefined, types.string)
+  .setAction(async ({ batchTimelock, output, pageSize, importFile, timelockFrom, cliffDuration, vestingDuration }, hre) => {
+    if (!batchTimelock) throw new Error("You must specify a BatchTimelock contract address");
+    if (!output) throw new Error("You must specify an output file path");
+
+    const format = path.extname(output).toLowerCase();
+    if (format !== ".csv" && format !== ".json") throw new Error("Output file must have a .csv or .json extension");
+
+    const { ethers } = hre;
+    const [deployer] = await ethers.getSigners();
+    const batchTimelockContract = BatchTimelock__factory.connect(batchTimelock, deployer);
+    const token = IERC20Metadata__factory.connect(await batchTimelockContract.getTokenAddress(), deployer);
+    const decimals = await token.decimals();
+
+    // timelock IDs are sequential and start from 1
+    const timelocksAmount = Number(await batchTimelockContract.getTimelocksAmount());
+    type OnChainTimelock = Awaited<ReturnType<typeof batchTimelockContract.getTimelock>>;
+    const timelocks = new Map<string, OnChainTimelock[]>();
+    const timelockMilestones = new Map<OnChainTimelock, string>();
+    const snapshots: TimelockSnapshot[] = [];
+
+    for (let offset = 0; offset < timelocksAmount; offset += pageSize) {
+      const timelockIds = Array.from({ length: Math.min(pageSize, timelocksAmount - offset) }, (_, i) => offset + i + 1);
+      const page = await Promise.all(
+        timelockIds.map(async (timelockId) =>
+          Promise.all([
+            batchTimelockContract.getTimelock(timelockId),
+            batchTimelockContract.getTimelockClaimableBalance(timelockId),
+            batchTimelockContract.getTimelockMilestones(timelockId),
+          ])
+        )
+      );
+
+      page.forEach(([lock, claimable, milestones], index) => {
+        const cliffEnd = lock.timelockFrom + lock.cliffDuration;
+        // same as `BatchTimelock._vestingEnd`, the vesting duration of milestone and cliff-only timelocks is zero
+        const lastMilestone = milestones.length > 0 ? milestones[milestones.length - 1].timestamp : 0n;
+        const vestingEnd = lastMilestone > cliffEnd ? lastMilestone : cliffEnd + lock.vestingDuration;
+        timelocks.set(lock.receiver, [...(timelocks.get(lock.receiver) ?? []), lock]);
+        timelockMilestones.set(lock, formatMilestones(milestones));
+        snapshots.push({
+          timelockId: timelockIds[index],
+          receiver: lock.receiver,
+          totalAmount: formatUnits(lock.totalAmount, decimals),
+          releasedAmount: formatUnits(lock.releasedAmount, decimals),
+          claimable: formatUnits(claimable, decimals),
+          timelockFrom: Number(lock.timelockFrom),
+          cliffEnd: Number(cliffEnd),
+          vestingEnd: Number(vestingEnd),
+          curve: CURVE_NAMES[Number(lock.curve)],
+          initialUnlock: formatShare(lock.initialUnlock),
+          stepDuration: Number(lock.stepDuration),
+          milestones: timelockMilestones.get(lock)!,
+          isTerminated: lock.isTerminated,
+          terminationFrom: Number(lock.terminationFrom),
+          forfeitedAmount: formatUnits(lock.forfeitedAmount, decimals),
+        });
+      });
+      console.log(`Read ${snapshots.length}/${timelocksAmount} timelocks`);
+    }
+
+    fs.writeFileSync(output, format === ".csv" ? toCSV(snapshots) : JSON.stringify(snapshots, null, 2));
+    console.log(`Snapshot of ${snapshots.length} timelocks written to ${output}`);
+
+    if (!importFile) return;
+
+    const { receivers: expected, issues } = parseReceivers(
+      await readCSV(importFile),
+      { start: timelockFrom, cliff: cliffDuration, vesting: vestingDuration },
+      decimals
+    );
+    issues.forEach((issue) => console.log(`  ${importFile} row ${issue.row}: ${issue.message}`));
+
+    // a receiver may hold several timelocks, so each row is matched against the receiver's timelocks
+    // that have not been matched by a previous row yet, exact matches first
+    const unmatched = new Map([...timelocks].map(([receiver, locks]) => [receiver, [...locks]]));
+    const isSameSchedule = (lock: OnChainTimelock, receiver: (typeof expected)[number]): boolean =>
+      lock.timelockFrom === BigInt(receiver.timelockFrom) &&
+      lock.cliffDuration === BigInt(receiver.cliffDuration) &&
+      lock.vestingDuration === BigInt(receiver.vestingDuration);
+    const isSameCurve = (lock: OnChainTimelock, receiver: (typeof expected)[number]): boolean =>
+      lock.curve === BigInt(receiver.curve) &&
+      lock.initialUnlock === BigInt(receiver.initialUnlock) &&
+      lock.stepDuration === BigInt(receiver.stepDuration) &&
+      timelockMilestones.get(lock) === formatMilestones(receiver.milestones);
+    const isSameTimelock = (lock: OnChainTimelock, receiver: (typeof expected)[number]): boolean =>
+      lock.totalAmount === receiver.totalAmount && isSameSchedule(lock, receiver) && isSameCurve(lock, receiver);
+
+    const rowsToReconcile = expected.filter((receiver) => {
+      const locks = unmatched.get(receiver.receiver as string) ?? [];
+      const index = locks.findIndex((lock) => isSameTimelock(lock, receiver));
+      if (index === -1) return true;
+      locks.splice(index, 1);
+      return false;
+    });
+
+    let mismatches = 0;
+    rowsToReconcile.forEach((receiver) => {
+      const lock = unmatched.get(receiver.receiver as string)?.shift();
+      const prefix = `  row ${receiver.row} ${receiver.receiver}`;
+      if (!lock) {
+        console.log(`${prefix}: missing on-chain`);
+        mismatches++;
+        return;
+      }
+      if (lock.totalAmount !== receiver.totalAmount) {
+        console.log(
+          `${prefix}: amount mismatch, expected ${formatUnits(receiver.totalAmount, decimals)}, ` +
+            `on-chain ${formatUnits(lock.totalAmount, decimals)}`
+        );
+        mismatches++;
+      }
+      if (!isSameSchedule(lock, receiver)) {
+        console.log(
+          `${prefix}: schedule mismatch, expected ${receiver.timelockFrom}/${receiver.cliffDuration}/${receiver.vestingDuration}, ` +
+            `on-chain ${lock.timelockFrom}/${lock.cliffDuration}/${lock.vestingDuration} (start/cliff/vesting)`
+        );
+        mismatches++;
+      }
+      if (!isSameCurve(lock, receiver)) {
+        console.log(
+          `${prefix}: curve mismatch, expected ${CURVE_NAMES[Number(receiver.curve)]}/${formatShare(receiver.initialUnlock)}/` +
+            `${receiver.stepDuration}/${formatMilestones(receiver.milestones)}, ` +
+            `on-chain ${CURVE_NAMES[Number(lock.curve)]}/${formatShare(lock.initialUnlock)}/${lock.stepDuration}/${timelockMilestones.get(lock)} ` +
+            `(curve/unlock/step/milestones)`
+        );
+        mismatches++;
+      }
+    });
+
+    const notInImport = [...unmatched.values()].reduce((count, locks) => count + locks.length, 0);
+
+    console.log(`Reconciled ${expected.length} rows from ${importFile}: ${mismatches} mismatch(es), ${issues.length} invalid row issue(s)`);
+    console.log(`On-chain timelocks not present in ${importFile}: ${notInImport}`);
+  });
+
+export default {};
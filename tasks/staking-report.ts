@@ -0,0 +1,108 @@
+import { task, types } from 'hardhat/config';
+import { formatUnits } from 'ethers';
+import { IERC20Metadata__factory, Staking__factory } from '../typechain';
+import { toCSV } from './utils/csv';
+import fs from 'fs';
+
+/**
+ * Single stake line of the portfolio report, with amounts in token units.
+ */
+type StakeReportLine = {
+  stakeId: number;
+  staker: string;
+  planId: number;
+  amount: string;
+  start: string;
+  end: string;
+  earnings: string;
+  matured: boolean;
+  withdrawn: boolean;
+  earlyWithdrawal: boolean;
+  payoutAtMaturity: string;
+};
+
+/**
+ * `IStaking.StakeStatus` values.
+ */
+const STAKE_STATUS = { Active: 0n, Matured: 1n, Withdrawn: 2n, EarlyWithdrawn: 3n };
+
+const toDate = (timestamp: bigint): string => new Date(Number(timestamp) * 1000).toISOString();
+
+task('report:stakes', 'Prints the stakes of a staker or of the whole protocol')
+  .addParam('staking', 'Staking Contract Address', undefined, types.string, false)
+  .addOptionalParam('staker', 'Address of the staker (all stakers if omitted)', undefined, types.string)
+  .addOptionalParam('format', 'Output format: table, csv or json', 'table', types.string)
+  .addOptionalParam('output', 'File to write the report to instead of stdout', undefined, types.string)
+  .addOptionalParam('pageSize', 'Number of stakes to read per call', 100, types.int)
+  .setAction(async ({ staking, staker, format, output, pageSize }, hre) => {
+    if (!staking) {
+      throw new Error('Staking is required');
+    }
+
+    if (!['table', 'csv', 'json'].includes(format)) {
+      throw new Error('Format must be one of: table, csv, json');
+    }
+
+    if (format === 'table' && output) {
+      throw new Error('Table format can only be printed, use csv or json with an output file');
+    }
+
+    const [deployer] = await hre.ethers.getSigners();
+    const stakingContract = Staking__factory.connect(staking, deployer);
+    const token = IERC20Metadata__factory.connect(await stakingContract.getStakingToken(), deployer);
+    const decimals = await token.decimals();
+
+    // ID sets and stake pages share the same ordering, so ids[i] belongs to stakes[i]
+    const stakeIds = staker ? await stakingContract.getStakeIds(staker) : await stakingContract.getAllStakeIds();
+    const lines: StakeReportLine[] = [];
+
+    for (let offset = 0; offset < stakeIds.length; offset += pageSize) {
+      const stakes = staker
+        ? await stakingContract.getStakes(staker, offset, pageSize)
+        : await stakingContract.getAllStakes(offset, pageSize);
+
+      const page = await Promise.all(
+        stakes.map(async (stake, i) => {
+          const stakeId = stakeIds[offset + i];
+          const status = await stakingContract.getStakeStatus(stakeId);
+          if (stake.withdrawn) {
+            const payout = stake.amount - stake.penaltyInTokens + stake.earningsInTokens;
+            return { stakeId, stake, status, earnings: stake.earningsInTokens, payout };
+          }
+
+          // the reserved earnings are snapshotted at stake creation and paid out in full at maturity
+          const { earningsInTokens } = await stakingContract.calculateStakeEarnings(stakeId);
+          return { stakeId, stake, status, earnings: earningsInTokens, payout: stake.amount + stake.reservedEarnings };
+        }),
+      );
+
+      page.forEach(({ stakeId, stake, status, earnings, payout }) =>
+        lines.push({
+          stakeId: Number(stakeId),
+          staker: stake.staker,
+          planId: Number(stake.stakingPlanId),
+          amount: formatUnits(stake.amount, decimals),
+          start: toDate(stake.startTimestamp),
+          end: toDate(stake.endTimestamp),
+          earnings: formatUnits(earnings, decimals),
+          matured: status === STAKE_STATUS.Matured || status === STAKE_STATUS.Withdrawn,
+          withdrawn: stake.withdrawn,
+          earlyWithdrawal: stake.earlyWithdrawal,
+          payoutAtMaturity: formatUnits(payout, decimals),
+        }),
+      );
+    }
+
+    if (format === 'table') {
+      console.table(lines);
+      return;
+    }
+
+    const report = format === 'json' ? JSON.stringify(lines, null, 2) : toCSV(lines);
+    if (output) {
+      fs.writeFileSync(output, report);
+      console.log(`Report of ${lines.length} stakes written to ${output}`);
+    } else {
+      console.log(report);
+    }
+  });
@@ -0,0 +1,45 @@
+import { task, types } from 'hardhat/config';
+import { formatUnits } from 'ethers';
+import { IERC20Metadata__factory, Staking__factory } from '../typechain';
+import { getStakingSolvency } from './utils/staking-solvency';
+
+task('monitor:staking-pool', 'Compares the staking pool funds against the staking liabilities')
+  .addParam('staking', 'Staking Contract Address', undefined, types.string, false)
+  .addOptionalParam('pageSize', 'Number of stakes to read per call', 100, types.int)
+  .setAction(async ({ staking, pageSize }, hre) => {
+    if (!staking) {
+      throw new Error('Staking is required');
+    }
+
+    const [deployer] = await hre.ethers.getSigners();
+    const stakingContract = Staking__factory.connect(staking, deployer);
+    const token = IERC20Metadata__factory.connect(await stakingContract.getStakingToken(), deployer);
+    const decimals = await token.decimals();
+    const format = (amount: bigint): string => formatUnits(amount, decimals);
+
+    const solvency = await getStakingSolvency(staking, deployer, pageSize);
+
+    console.log('Staking pool balance:'.padEnd(28), format(solvency.poolBalance));
+    console.log('Staking pool allowance:'.padEnd(28), format(solvency.poolAllowance));
+    console.log('Recorded liabilities:'.padEnd(28), format(solvency.recordedLiabilities));
+    console.log('Liabilities at maturity:'.padEnd(28), format(solvency.maturityLiabilities));
+    console.log('Liabilities accrued today:'.padEnd(28), format(solvency.accruedLiabilities));
+    console.log('Liabilities drift:'.padEnd(28), format(solvency.drift));
+    console.log(`${solvency.surplus < 0n ? 'Shortfall' : 'Surplus'}:`.padEnd(28), format(solvency.surplus));
+
+    console.table(
+      solvency.plans.map(plan => ({
+        planId: Number(plan.planId),
+        activeStakes: plan.activeStakes,
+        liabilities: format(plan.liabilities),
+        runway: format(plan.runway),
+      })),
+    );
+
+    if (solvency.surplus < 0n) {
+      console.error('Staking pool is undercollateralized');
+      process.exitCode = 1;
+    }
+
+    return solvency;
+  });
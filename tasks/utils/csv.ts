@@ -0,0 +1,9 @@
+/**
+ * Serializes flat records into CSV, using the keys of the first record as the header.
+ * Values are expected not to contain commas or line breaks (addresses, numbers, flags).
+ */
+export const toCSV = <T extends object>(records: T[], columns?: (keyof T)[]): string => {
+  const header = columns ?? (Object.keys(records[0] ?? {}) as (keyof T)[]);
+  const lines = records.map((record) => header.map((column) => String(record[column])).join(","));
+  return [header.join(","), ...lines].join("\n") + "\n";
+};
@@ -0,0 +1,114 @@
+import { ContractRunner, parseUnits } from 'ethers';
+import { IERC20Metadata__factory, StakingManagement__factory, Staking__factory } from '../../typechain';
+
+/**
+ * Liabilities and remaining capacity of a single staking plan.
+ * `runway` is the additional principal the plan can still accept before the pool surplus is exhausted.
+ */
+export type PlanSolvency = {
+  planId: bigint;
+  activeStakes: number;
+  liabilities: bigint;
+  runway: bigint;
+};
+
+/**
+ * Staking pool solvency figures, all amounts in token wei.
+ * @param poolBalance Token balance of the staking pool.
+ * @param poolAllowance Allowance of the staking pool to the staking contract.
+ * @param recordedLiabilities Liabilities tracked by the contract (`getStakingPoolSize()`).
+ * @param maturityLiabilities Sum of principal plus reserved earnings over all active stakes, i.e. what they pay at maturity.
+ * @param accruedLiabilities Sum of principal plus earnings accrued so far (`calculateStakeEarnings`).
+ * @param drift Difference between the recorded and the computed maturity liabilities.
+ * @param surplus Available funds minus the larger liability figure, negative on a shortfall.
+ */
+export type StakingSolvency = {
+  poolBalance: bigint;
+  poolAllowance: bigint;
+  recordedLiabilities: bigint;
+  maturityLiabilities: bigint;
+  accruedLiabilities: bigint;
+  drift: bigint;
+  surplus: bigint;
+  plans: PlanSolvency[];
+};
+
+/**
+ * Computes the staking pool solvency by comparing the pool funds against all active stakes.
+ * @param staking Address of the staking contract.
+ * @param runner Provider or signer used for the calls.
+ * @param pageSize Number of stakes to read per call.
+ */
+export const getStakingSolvency = async (
+  staking: string,
+  runner: ContractRunner,
+  pageSize = 100,
+): Promise<StakingSolvency> => {
+  const stakingContract = Staking__factory.connect(staking, runner);
+  const stakingManagement = StakingManagement__factory.connect(await stakingContract.getStakingManagement(), runner);
+  const token = IERC20Metadata__factory.connect(await stakingContract.getStakingToken(), runner);
+  const stakingPool = await stakingContract.getStakingPool();
+  const unit = parseUnits('1', await token.decimals());
+
+  const [poolBalance, poolAllowance, recordedLiabilities] = await Promise.all([
+    token.balanceOf(stakingPool),
+    token.allowance(stakingPool, staking),
+    stakingContract.getStakingPoolSize(),
+  ]);
+
+  const plans = new Map<bigint, PlanSolvency>();
+  const [, planIds] = await stakingManagement.getStakingPlans(0, await stakingManagement.getStakingPlansAmount());
+  planIds.forEach(planId => plans.set(planId, { planId, activeStakes: 0, liabilities: 0n, runway: 0n }));
+
+  const stakeIds = await stakingContract.getAllStakeIds();
+  let maturityLiabilities = 0n;
+  let accruedLiabilities = 0n;
+
+  for (let offset = 0; offset < stakeIds.length; offset += pageSize) {
+    const stakes = await stakingContract.getAllStakes(offset, pageSize);
+    const active = stakes.map((stake, i) => ({ stake, stakeId: stakeIds[offset + i] })).filter(({ stake }) => !stake.withdrawn);
+
+    const earnings = await Promise.all(active.map(async ({ stakeId }) => stakingContract.calculateStakeEarnings(stakeId)));
+
+    active.forEach(({ stake }, i) => {
+      const { earningsInTokens } = earnings[i];
+      // stake terms are snapshotted at creation, the reserved earnings are exactly what is paid at maturity
+      const liability = stake.amount + stake.reservedEarnings;
+      maturityLiabilities += liability;
+      accruedLiabilities += stake.amount + earningsInTokens;
+
+      const plan = plans.get(stake.stakingPlanId) ?? {
+        planId: stake.stakingPlanId,
+        activeStakes: 0,
+        liabilities: 0n,
+        runway: 0n,
+      };
+      plan.activeStakes++;
+      plan.liabilities += liability;
+      plans.set(stake.stakingPlanId, plan);
+    });
+  }
+
+  const available = poolBalance < poolAllowance ? poolBalance : poolAllowance;
+  const liabilities = recordedLiabilities > maturityLiabilities ? recordedLiabilities : maturityLiabilities;
+  const surplus = available - liabilities;
+
+  // a new stake brings its principal into the pool, so only its earnings consume the surplus,
+  // which are priced with the current plan terms
+  for (const plan of plans.values()) {
+    if (surplus <= 0n || !planIds.includes(plan.planId)) continue;
+    const { predictedEarningsInTokens } = await stakingContract.estimateStakeEarnings(unit, plan.planId);
+    plan.runway = predictedEarningsInTokens > 0n ? (surplus * unit) / predictedEarningsInTokens : 0n;
+  }
+
+  return {
+    poolBalance,
+    poolAllowance,
+    recordedLiabilities,
+    maturityLiabilities,
+    accruedLiabilities,
+    drift: recordedLiabilities - maturityLiabilities,
+    surplus,
+    plans: [...plans.values()],
+  };
+};
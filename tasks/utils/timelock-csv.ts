@@ -0,0 +1,339 @@
+import { ZeroAddress, getAddress, id, isAddress, parseUnits } from "ethers";
+import { IBatchTimelock } from "../../typechain/contracts/timelock/BatchTimelock";
+import fs from "fs";
+import csv from "csv-parser";
+
+/**
+ * Columns accepted in a timelock import CSV. `staker` and `reward` are mandatory,
+ * the schedule columns override the task defaults for a single row.
+ * Every row creates a separate timelock, so an address may appear on several rows.
+ *
+ * The vesting curve columns are optional:
+ * - `curve`: `linear` (default), `periodic`, `milestones` or `cliff-only` (everything unlocks at the cliff end),
+ *   only the linear and periodic curves take a `vesting` value;
+ * - `unlock`: percentage unlocked at the start, e.g. `10` or `12.5%`;
+ * - `step`: step duration of the periodic curve, e.g. `1mo`;
+ * - `milestones`: `date:percentage` pairs separated by `;`, e.g. `2025-01-01:25;1767225600:75`.
+ */
+export const TIMELOCK_CSV_COLUMNS = ["staker", "reward", "start", "cliff", "vesting", "curve", "unlock", "step", "milestones"];
+
+/**
+ * `IBatchTimelock.VestingCurve` values by their CSV name.
+ */
+export const VESTING_CURVES: Record<string, number> = {
+  linear: 0,
+  periodic: 1,
+  milestones: 2,
+  "cliff-only": 3,
+};
+
+/**
+ * 100% in the basis points used by `BatchTimelock`, same as `Constants.HUNDRED_PERCENT`.
+ */
+const HUNDRED_PERCENT = 100_00;
+
+/**
+ * Schedule limits of `BatchTimelock`, same as `Constants.MAX_TIMELOCK_SCHEDULE_DURATION` and `Constants.MAX_TIMELOCK_BACKDATE`.
+ */
+const MAX_SCHEDULE_DURATION = 10 * 365 * 86400;
+const MAX_BACKDATE = 365 * 86400;
+
+/**
+ * Duration units, in seconds. A month is 30 days and a year is 365 days, same as in `Constants.sol`.
+ */
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+  w: 7 * 86400,
+  mo: 30 * 86400,
+  y: 365 * 86400,
+};
+
+/**
+ * Problem found in a CSV row. Row numbers are 1-based and include the header line.
+ */
+export type RowIssue = {
+  row: number;
+  message: string;
+};
+
+/**
+ * Receiver parsed from a CSV row, along with the row it came from.
+ */
+export type CsvReceiver = IBatchTimelock.ReceiverStruct & {
+  row: number;
+};
+
+/**
+ * Rows with issues are left out of `receivers`, rows with warnings are kept.
+ */
+export type ParsedReceivers = {
+  receivers: CsvReceiver[];
+  issues: RowIssue[];
+  warnings: RowIssue[];
+};
+
+/**
+ * Schedule applied to rows that do not define their own, in raw CLI form.
+ */
+export type ScheduleDefaults = {
+  start?: string;
+  cliff?: string;
+  vesting?: string;
+};
+
+export type CsvContent = {
+  headers: string[];
+  rows: Record<string, string>[];
+};
+
+export const readCSV = (filePath: string): Promise<CsvContent> => {
+  return new Promise((resolve, reject) => {
+    let headers: string[] = [];
+    const rows: Record<string, string>[] = [];
+    fs.createReadStream(filePath)
+      .pipe(csv({ mapHeaders: ({ header }) => header.trim() }))
+      .on("headers", (parsed: string[]) => (headers = parsed))
+      .on("data", (data: Record<string, string>) => rows.push(data))
+      .on("end", () => resolve({ headers, rows }))
+      .on("error", reject);
+  });
+};
+
+/**
+ * Parses a duration such as `15780000`, `365d`, `6mo` or `1y6mo` into seconds.
+ */
+export const parseDuration = (value: string): number => {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+
+  const parts = trimmed.match(/\d+(mo|[smhdwy])/g);
+  if (!parts || parts.join("") !== trimmed) {
+    throw new Error(`invalid duration "${value}"`);
+  }
+
+  return parts.reduce((total, part) => {
+    const [, amount, unit] = /^(\d+)(\w+)$/.exec(part)!;
+    return total + Number(amount) * DURATION_UNITS[unit];
+  }, 0);
+};
+
+/**
+ * Parses a unix timestamp (in seconds) or an ISO 8601 date into a unix timestamp.
+ */
+export const parseTimestamp = (value: string): number => {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+
+  const milliseconds = /^\d{4}-\d{2}-\d{2}/.test(trimmed) ? Date.parse(trimmed) : NaN;
+  if (Number.isNaN(milliseconds)) {
+    throw new Error(`invalid date "${value}"`);
+  }
+
+  return Math.floor(milliseconds / 1000);
+};
+
+/**
+ * Parses a percentage such as `25`, `12.5` or `12.5%` into basis points.
+ */
+export const parseShare = (value: string): number => {
+  const match = /^(\d+(?:\.\d{1,2})?)%?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`invalid percentage "${value}"`);
+  }
+
+  return Math.round(Number(match[1]) * 100);
+};
+
+/**
+ * Parses `date:percentage` pairs separated by `;` into milestones, dates may be unix timestamps or ISO dates.
+ */
+export const parseMilestones = (value: string): IBatchTimelock.MilestoneStruct[] =>
+  value
+    .split(";")
+    .filter((pair) => pair.trim() !== "")
+    .map((pair) => {
+      const separator = pair.lastIndexOf(":");
+      if (separator === -1) {
+        throw new Error(`invalid milestone "${pair}", expected date:percentage`);
+      }
+      return { timestamp: parseTimestamp(pair.slice(0, separator)), share: parseShare(pair.slice(separator + 1)) };
+    });
+
+/**
+ * Returns the issues `BatchTimelock` would revert with for the schedule of a row.
+ * @param receiver Parsed row.
+ * @param rejectBackdated Whether to check the start against the current time, only meaningful before an import.
+ */
+const checkSchedule = (receiver: IBatchTimelock.ReceiverStruct, rejectBackdated: boolean): string[] => {
+  const issues: string[] = [];
+  const vestingDuration = Number(receiver.vestingDuration);
+  const stepDuration = Number(receiver.stepDuration);
+
+  if (rejectBackdated && Number(receiver.timelockFrom) < Math.floor(Date.now() / 1000) - MAX_BACKDATE) {
+    issues.push("start is more than a year in the past");
+  }
+  if (Number(receiver.cliffDuration) + vestingDuration > MAX_SCHEDULE_DURATION) {
+    issues.push("cliff and vesting add up to more than 10 years");
+  }
+  if (vestingDuration === 0 && (receiver.curve === VESTING_CURVES.linear || receiver.curve === VESTING_CURVES.periodic)) {
+    issues.push("zero vesting, use the cliff-only curve to unlock everything at the cliff end");
+  }
+
+  if (Number(receiver.initialUnlock) > HUNDRED_PERCENT) issues.push("unlock above 100%");
+  if (receiver.curve === VESTING_CURVES.periodic) {
+    if (stepDuration === 0 || vestingDuration % stepDuration !== 0) issues.push("step must divide the vesting duration");
+  } else if (stepDuration !== 0) {
+    issues.push("step is only allowed for the periodic curve");
+  }
+
+  const milestones = receiver.milestones;
+  if (receiver.curve !== VESTING_CURVES.milestones) {
+    if (milestones.length > 0) issues.push("milestones are only allowed for the milestones curve");
+    return issues;
+  }
+
+  const total = milestones.reduce((sum, milestone) => sum + Number(milestone.share), 0);
+  if (milestones.length === 0) issues.push("no milestones given");
+  if (total !== HUNDRED_PERCENT) issues.push(`milestone percentages add up to ${total / 100}%, expected 100%`);
+  if (milestones.some((milestone, i) => i > 0 && Number(milestone.timestamp) <= Number(milestones[i - 1].timestamp))) {
+    issues.push("milestone dates must be strictly ascending");
+  }
+  const cliffEnd = Number(receiver.timelockFrom) + Number(receiver.cliffDuration);
+  if (milestones.length > 0 && Number(milestones[0].timestamp) < cliffEnd) {
+    issues.push("milestones must not be before the cliff end");
+  }
+  const lastMilestone = milestones.length > 0 ? Number(milestones[milestones.length - 1].timestamp) : 0;
+  if (lastMilestone > Number(receiver.timelockFrom) + MAX_SCHEDULE_DURATION) {
+    issues.push("last milestone is more than 10 years after the start");
+  }
+  return issues;
+};
+
+/**
+ * Returns a key identifying the parsed timelock of a row, regardless of the row number.
+ */
+const receiverKey = ({ row: _row, ...receiver }: CsvReceiver): string =>
+  JSON.stringify(receiver, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+
+/**
+ * Returns a hash of the parsed receivers, used to detect CSV changes between runs.
+ */
+export const hashReceivers = (receivers: CsvReceiver[]): string => id(receivers.map(receiverKey).join("\n"));
+
+/**
+ * Validates the CSV content and converts it into `addTimelockBatch` receivers.
+ * Rows with issues are reported and left out of the result.
+ * @param content Parsed CSV file.
+ * @param defaults Schedule used for rows without `start`, `cliff` or `vesting` values.
+ * @param decimals Token decimals used to convert `reward` amounts.
+ * @param rejectBackdated Whether to report rows starting more than `MAX_BACKDATE` ago, which `BatchTimelock` would
+ * reject now. Leave it off when reconciling against timelocks that have already been added.
+ */
+export const parseReceivers = (
+  content: CsvContent,
+  defaults: ScheduleDefaults,
+  decimals: bigint,
+  rejectBackdated = false
+): ParsedReceivers => {
+  const receivers: CsvReceiver[] = [];
+  const issues: RowIssue[] = [];
+  const warnings: RowIssue[] = [];
+  const seen = new Map<string, number>();
+
+  content.headers
+    .filter((header) => !TIMELOCK_CSV_COLUMNS.includes(header))
+    .forEach((header) => issues.push({ row: 1, message: `unknown column "${header}"` }));
+  ["staker", "reward"]
+    .filter((column) => !content.headers.includes(column))
+    .forEach((column) => issues.push({ row: 1, message: `missing column "${column}"` }));
+
+  content.rows.forEach((data, index) => {
+    const row = index + 2;
+    const rowIssues: string[] = [];
+    const address = (data.staker ?? "").trim();
+    const amount = (data.reward ?? "").trim();
+
+    if (!isAddress(address)) {
+      rowIssues.push(`malformed address "${address}"`);
+    } else if (address === ZeroAddress) {
+      rowIssues.push("zero address");
+    }
+
+    let totalAmount = 0n;
+    try {
+      totalAmount = parseUnits(amount, decimals);
+      if (totalAmount <= 0n) rowIssues.push("zero amount");
+    } catch {
+      rowIssues.push(`malformed amount "${amount}"`);
+    }
+
+    const parseColumn = <T>(column: string, parse: (value: string) => T, fallback: T, required = true): T => {
+      const value = data[column]?.trim() || defaults[column as keyof ScheduleDefaults];
+      if (value === undefined || value === "") {
+        if (required) rowIssues.push(`no ${column} value and no default given`);
+        return fallback;
+      }
+      try {
+        return parse(value);
+      } catch (error) {
+        rowIssues.push(`${column}: ${(error as Error).message}`);
+        return fallback;
+      }
+    };
+
+    const curveName = (data.curve ?? "").trim().toLowerCase() || "linear";
+    const curve = VESTING_CURVES[curveName];
+    if (curve === undefined) rowIssues.push(`unknown curve "${data.curve}"`);
+
+    const timelockFrom = parseColumn("start", parseTimestamp, 0);
+    const cliffDuration = parseColumn("cliff", parseDuration, 0);
+    // the milestones and cliff-only curves have no vesting duration, so the default does not apply to them
+    const hasVesting = curve === VESTING_CURVES.linear || curve === VESTING_CURVES.periodic;
+    if (!hasVesting && data.vesting?.trim()) rowIssues.push(`vesting is not allowed for the ${curveName} curve`);
+    const vestingDuration = hasVesting ? parseColumn("vesting", parseDuration, 0) : 0;
+    const initialUnlock = parseColumn("unlock", parseShare, 0, false);
+    const stepDuration = parseColumn("step", parseDuration, 0, false);
+    const milestones = parseColumn("milestones", parseMilestones, [], false);
+
+    const receiver = {
+      row,
+      receiver: address,
+      totalAmount,
+      timelockFrom,
+      cliffDuration,
+      vestingDuration,
+      curve,
+      initialUnlock,
+      stepDuration,
+      milestones,
+    };
+    if (rowIssues.length === 0) rowIssues.push(...checkSchedule(receiver, rejectBackdated));
+
+    if (rowIssues.length > 0) {
+      rowIssues.forEach((message) => issues.push({ row, message }));
+      return;
+    }
+
+    const parsed = { ...receiver, receiver: getAddress(address) };
+    // a receiver may hold several timelocks, but a fully identical row is most likely copy-pasted
+    const key = receiverKey(parsed);
+    if (seen.has(key)) {
+      warnings.push({ row, message: `identical to row ${seen.get(key)}, another timelock will be added` });
+    } else {
+      seen.set(key, row);
+    }
+
+    receivers.push(parsed);
+  });
+
+  return { receivers, issues, warnings };
+};
+
+
+/**
+ * Strips the CSV row number so the receiver can be passed to the contract.
+ */
+export const toReceiverStruct = ({ row: _row, ...receiver }: CsvReceiver): IBatchTimelock.ReceiverStruct => receiver;
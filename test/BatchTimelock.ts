@@ -62,31 +62,43 @@ describe("BatchTimelock Contract", function () {
     const CLIFF_DURATION = 15_780_000; // 6 months in seconds
     const VESTING_DURATION = 31_536_000; // 1 year in seconds
     const TIMELOCK_AMOUNT: BigNumberish = ethers.parseEther('1');
-    const TIMESTAMP_NOW = Math.floor(Date.now() / 1000);
+    const FIRST_TIMELOCK_ID = 1;
+    const LINEAR = 0;
+    const PERIODIC = 1;
+    const MILESTONES = 2;
+    const CLIFF_ONLY = 3;
+    const LINEAR_SCHEDULE = { curve: LINEAR, initialUnlock: 0, stepDuration: 0, milestones: [] };
 
     let timelockReceiver1Address: string;
     let timelockReceiver2Address: string;
     let timelockReceiver3Address: string;
     let timelockReceiver4Address: string;
+    let timestampNow: number;
+
+    // earlier tests move the chain time ahead, timelocks cannot start too far before it
+    beforeEach(async function () {
+      const block = await ethers.provider.getBlock("latest");
+      timestampNow = block!.timestamp;
+    });
 
     describe("addTimelock", function () {
       beforeEach(async function () {
         timelockReceiver1Address = await timelockReceiver1.getAddress();
         timelockReceiver2Address = await timelockReceiver2.getAddress();
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
       });
 
       it("Should correctly add a timelock", async function () {
         it("Should correctly emit a TimelockCreated event", async function () {
-          await expect(batchTimelock.connect(deployer).addTimelock(timeLockReceiver2Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION))
+          await expect(batchTimelock.connect(deployer).addTimelock(timelockReceiver2Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION))
           .to.emit(batchTimelock, 'TimelockCreated')
-          .withArgs(timeLockReceiver2Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
-        const timelock2 = await batchTimelock.getTimelock(timeLockReceiver2Address);
+          .withArgs(timelockReceiver2Address, FIRST_TIMELOCK_ID + 1, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
+        const timelock2 = await batchTimelock.getTimelock(FIRST_TIMELOCK_ID + 1);
         expect(timelock2.totalAmount).to.equal(TIMELOCK_AMOUNT);
         });
 
         it("Should correctly create a timelock", async function () {
-          const timelock = await batchTimelock.getTimelock(timelockReceiver1Address);
+          const timelock = await batchTimelock.getTimelock(FIRST_TIMELOCK_ID);
           expect(timelock.receiver).to.equal(timelockReceiver1Address);
           expect(timelock.totalAmount).to.equal(TIMELOCK_AMOUNT);
           expect(timelock.cliffDuration).to.equal(CLIFF_DURATION);
@@ -97,23 +109,30 @@ describe("BatchTimelock Contract", function () {
       });
 
       it('should fail to add a timelock if the caller is not a timelock creator', async function () {
-        await expect(batchTimelock.connect(stranger).addTimelock(timelockReceiver2Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION))
+        await expect(batchTimelock.connect(stranger).addTimelock(timelockReceiver2Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION))
           .to.be.revertedWithCustomError(batchTimelock, `CallerIsNotATimelockCreator`);
       });
 
       it("Should fail to add a timelock for a zero address", async function () {
-        await expect(batchTimelock.connect(deployer).addTimelock(ZERO_ADDRESS, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION))
+        await expect(batchTimelock.connect(deployer).addTimelock(ZERO_ADDRESS, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION))
           .to.be.revertedWithCustomError(batchTimelock, `InvalidReceiverAddress`);
       });
 
       it("Should fail to add a timelock if total amount is 0", async function () {
-        await expect(batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, 0, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION))
+        await expect(batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, 0, timestampNow, CLIFF_DURATION, VESTING_DURATION))
           .to.be.revertedWithCustomError(batchTimelock, `InvalidTimelockAmount`);
       });
 
-      it("Should fail to add a timelock for an existing receiver", async function () {
-        await expect(batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION))
-          .to.be.revertedWithCustomError(batchTimelock, `ReceiverAlreadyHasATimelock`);
+      it("Should add another timelock for an existing receiver", async function () {
+        await expect(batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, ethers.parseEther('2'), timestampNow, 0, VESTING_DURATION))
+          .to.emit(batchTimelock, 'TimelockCreated')
+          .withArgs(timelockReceiver1Address, FIRST_TIMELOCK_ID + 1, ethers.parseEther('2'), timestampNow, 0, VESTING_DURATION);
+
+        expect(await batchTimelock.getReceiverTimelockIds(timelockReceiver1Address)).to.deep.equal([1n, 2n]);
+        expect(await batchTimelock.getTimelocksAmount()).to.equal(2);
+        expect(await batchTimelock.getTimelockReceiversAmount()).to.equal(1);
+        expect((await batchTimelock.getTimelock(FIRST_TIMELOCK_ID)).totalAmount).to.equal(TIMELOCK_AMOUNT);
+        expect((await batchTimelock.getTimelock(FIRST_TIMELOCK_ID + 1)).totalAmount).to.equal(ethers.parseEther('2'));
       });
     });
 
@@ -128,9 +147,9 @@ describe("BatchTimelock Contract", function () {
         timelockReceiver2Address = await timelockReceiver2.getAddress();
         timelockReceiver3Address = await timelockReceiver3.getAddress();
         batchOfReceivers = [
-          { receiver: timelockReceiver1Address, totalAmount: TIMELOCK_AMOUNT, timelockFrom: TIMESTAMP_NOW, cliffDuration: CLIFF_DURATION, vestingDuration: VESTING_DURATION },
-          { receiver: timelockReceiver2Address, totalAmount: TIMELOCK_AMOUNT, timelockFrom: TIMESTAMP_NOW, cliffDuration: CLIFF_DURATION, vestingDuration: VESTING_DURATION },
-          { receiver: timelockReceiver3Address, totalAmount: TIMELOCK_AMOUNT, timelockFrom: TIMESTAMP_NOW, cliffDuration: CLIFF_DURATION, vestingDuration: VESTING_DURATION },
+          { receiver: timelockReceiver1Address, totalAmount: TIMELOCK_AMOUNT, timelockFrom: timestampNow, cliffDuration: CLIFF_DURATION, vestingDuration: VESTING_DURATION, ...LINEAR_SCHEDULE },
+          { receiver: timelockReceiver2Address, totalAmount: TIMELOCK_AMOUNT, timelockFrom: timestampNow, cliffDuration: CLIFF_DURATION, vestingDuration: VESTING_DURATION, ...LINEAR_SCHEDULE },
+          { receiver: timelockReceiver3Address, totalAmount: TIMELOCK_AMOUNT, timelockFrom: timestampNow, cliffDuration: CLIFF_DURATION, vestingDuration: VESTING_DURATION, ...LINEAR_SCHEDULE },
         ];
       });
 
@@ -144,19 +163,19 @@ describe("BatchTimelock Contract", function () {
         // Logs[0]
         expect(logs[0].args.receiver).to.equal(timelockReceiver1Address);
         expect(logs[0].args.totalAmount).to.equal(TIMELOCK_AMOUNT);
-        expect(logs[0].args.timelockFrom).to.equal(TIMESTAMP_NOW);
+        expect(logs[0].args.timelockFrom).to.equal(timestampNow);
         expect(logs[0].args.cliffDuration).to.equal(CLIFF_DURATION);
         expect(logs[0].args.vestingDuration).to.equal(VESTING_DURATION);
         // Logs[1]
         expect(logs[1].args.receiver).to.equal(timelockReceiver2Address);
         expect(logs[1].args.totalAmount).to.equal(TIMELOCK_AMOUNT);
-        expect(logs[1].args.timelockFrom).to.equal(TIMESTAMP_NOW);
+        expect(logs[1].args.timelockFrom).to.equal(timestampNow);
         expect(logs[1].args.cliffDuration).to.equal(CLIFF_DURATION);
         expect(logs[1].args.vestingDuration).to.equal(VESTING_DURATION);
         // Logs[2]
         expect(logs[2].args.receiver).to.equal(timelockReceiver3Address);
         expect(logs[2].args.totalAmount).to.equal(TIMELOCK_AMOUNT);
-        expect(logs[2].args.timelockFrom).to.equal(TIMESTAMP_NOW);
+        expect(logs[2].args.timelockFrom).to.equal(timestampNow);
         expect(logs[2].args.cliffDuration).to.equal(CLIFF_DURATION);
         expect(logs[2].args.vestingDuration).to.equal(VESTING_DURATION);
       });
@@ -178,10 +197,14 @@ describe("BatchTimelock Contract", function () {
           .to.be.revertedWithCustomError(batchTimelock, `InvalidTimelockAmount`);
       });
 
-      it("Should fail to add a batch for an existing receiver", async function () {
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
-        await expect(batchTimelock.connect(deployer).addTimelockBatch(batchOfReceivers))
-          .to.be.revertedWithCustomError(batchTimelock, `ReceiverAlreadyHasATimelock`);
+      it("Should add a batch with several timelocks for the same receiver", async function () {
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
+        batchOfReceivers[2].receiver = timelockReceiver1Address;
+        await batchTimelock.connect(deployer).addTimelockBatch(batchOfReceivers);
+
+        expect(await batchTimelock.getReceiverTimelockIds(timelockReceiver1Address)).to.deep.equal([1n, 2n, 4n]);
+        expect(await batchTimelock.getReceiverTimelockIds(timelockReceiver2Address)).to.deep.equal([3n]);
+        expect(await batchTimelock.getTimelockReceiversAmount()).to.equal(2);
       });
 
       it("Should fail to add a batch if the batch is empty", async function () {
@@ -242,7 +265,7 @@ describe("BatchTimelock Contract", function () {
 
       it("Should allow to claim only half of the amount if terminated on the half of the vesting", async function () {
         // Terminate the timelock and then fast-forward past the termination date
-        await batchTimelock.connect(deployer).terminate(timelockReceiverAddress, timelockFrom + cliffDuration + (vestingDuration / 2));
+        await batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, timelockFrom + cliffDuration + (vestingDuration / 2));
         await ethers.provider.send("evm_increaseTime", [cliffDuration + (vestingDuration / 2)]);
         await ethers.provider.send("evm_mine", []);
 
@@ -250,7 +273,7 @@ describe("BatchTimelock Contract", function () {
 
         await expect(batchTimelock.connect(timelockReceiver1).claim(halfVestingAmount))
           .to.emit(batchTimelock, "TokensClaimed")
-          .withArgs(timelockReceiverAddress, halfVestingAmount);
+          .withArgs(timelockReceiverAddress, FIRST_TIMELOCK_ID, halfVestingAmount);
         expect(withdrawable).to.be.eq(halfVestingAmount);
       });
 
@@ -261,7 +284,7 @@ describe("BatchTimelock Contract", function () {
         const withdrawable = await batchTimelock.getClaimableBalance(timelockReceiverAddress);
         await expect(batchTimelock.connect(timelockReceiver1).claim(withdrawable))
           .to.emit(batchTimelock, "TokensClaimed")
-          .withArgs(timelockReceiverAddress, withdrawable);
+          .withArgs(timelockReceiverAddress, FIRST_TIMELOCK_ID, withdrawable);
       });
 
       it("Should successfully claim within the allowable limit", async function () {
@@ -273,7 +296,7 @@ describe("BatchTimelock Contract", function () {
 
         await expect(batchTimelock.connect(timelockReceiver1).claim(claimableAmount))
           .to.emit(batchTimelock, "TokensClaimed")
-          .withArgs(timelockReceiverAddress, claimableAmount);
+          .withArgs(timelockReceiverAddress, FIRST_TIMELOCK_ID, claimableAmount);
       });
 
       it("Should successfully claim the whole amount after the vesting period", async function () {
@@ -285,7 +308,7 @@ describe("BatchTimelock Contract", function () {
 
         await expect(batchTimelock.connect(timelockReceiver1).claim(claimableAmount))
           .to.emit(batchTimelock, "TokensClaimed")
-          .withArgs(timelockReceiverAddress, initialVestingAmount);
+          .withArgs(timelockReceiverAddress, FIRST_TIMELOCK_ID, initialVestingAmount);
       });
 
       it("Should fail if the token transfer fails", async function () {
@@ -297,6 +320,236 @@ describe("BatchTimelock Contract", function () {
       });
     });
 
+    describe("multiple timelocks per receiver", function () {
+      let timelockReceiver1Address: string;
+      let cliffDuration: number;
+      let vestingDuration: number;
+      let timelockFrom: number;
+      let firstTimelockId: bigint;
+      let secondTimelockId: bigint;
+
+      beforeEach(async function () {
+        timelockReceiver1Address = await timelockReceiver1.getAddress();
+        cliffDuration = 6 * 30 * 24 * 60 * 60; // 6 months in seconds
+        vestingDuration = 12 * 30 * 24 * 60 * 60; // 12 months in seconds
+        const block = await ethers.provider.getBlock("latest");
+        timelockFrom = block!.timestamp;
+
+        firstTimelockId = await batchTimelock.addTimelock.staticCall(timelockReceiver1Address, ethers.parseEther("1"), timelockFrom, cliffDuration, vestingDuration);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, ethers.parseEther("1"), timelockFrom, cliffDuration, vestingDuration);
+        secondTimelockId = await batchTimelock.addTimelock.staticCall(timelockReceiver1Address, ethers.parseEther("2"), timelockFrom, 0, vestingDuration * 2);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, ethers.parseEther("2"), timelockFrom, 0, vestingDuration * 2);
+      });
+
+      it("Should aggregate the claimable balance of all timelocks", async function () {
+        await ethers.provider.send("evm_increaseTime", [cliffDuration + vestingDuration]);
+        await ethers.provider.send("evm_mine", []);
+
+        const first = await batchTimelock.getTimelockClaimableBalance(firstTimelockId);
+        const second = await batchTimelock.getTimelockClaimableBalance(secondTimelockId);
+        expect(first).to.equal(ethers.parseEther("1"));
+        expect(second).to.be.closeTo(ethers.parseEther("1.5"), ethers.parseEther("0.001"));
+        expect(await batchTimelock.getClaimableBalance(timelockReceiver1Address)).to.equal(first + second);
+      });
+
+      it("Should claim across timelocks, oldest first", async function () {
+        await ethers.provider.send("evm_increaseTime", [cliffDuration + vestingDuration]);
+        await ethers.provider.send("evm_mine", []);
+
+        const amount = ethers.parseEther("1.5");
+        await expect(batchTimelock.connect(timelockReceiver1).claim(amount))
+          .to.emit(batchTimelock, "TokensClaimed")
+          .withArgs(timelockReceiver1Address, firstTimelockId, ethers.parseEther("1"))
+          .and.to.emit(batchTimelock, "TokensClaimed")
+          .withArgs(timelockReceiver1Address, secondTimelockId, ethers.parseEther("0.5"));
+
+        expect(await iqtMock.balanceOf(timelockReceiver1Address)).to.equal(amount);
+        expect((await batchTimelock.getTimelock(firstTimelockId)).releasedAmount).to.equal(ethers.parseEther("1"));
+        expect((await batchTimelock.getTimelock(secondTimelockId)).releasedAmount).to.equal(ethers.parseEther("0.5"));
+      });
+
+      it("Should claim from a single timelock while the other one is still in the cliff", async function () {
+        await ethers.provider.send("evm_increaseTime", [cliffDuration / 2]);
+        await ethers.provider.send("evm_mine", []);
+
+        await expect(batchTimelock.connect(timelockReceiver1).claimTimelock(firstTimelockId, 1))
+          .to.be.revertedWithCustomError(batchTimelock, "CliffPeriodNotEnded");
+
+        const claimable = await batchTimelock.getTimelockClaimableBalance(secondTimelockId);
+        await expect(batchTimelock.connect(timelockReceiver1).claimTimelock(secondTimelockId, claimable))
+          .to.emit(batchTimelock, "TokensClaimed")
+          .withArgs(timelockReceiver1Address, secondTimelockId, claimable);
+      });
+
+      it("Should terminate a single timelock only", async function () {
+        await batchTimelock.connect(deployer).terminate(firstTimelockId, timelockFrom + cliffDuration);
+
+        expect((await batchTimelock.getTimelock(firstTimelockId)).isTerminated).to.equal(true);
+        expect((await batchTimelock.getTimelock(secondTimelockId)).isTerminated).to.equal(false);
+      });
+
+      it("Should fail to claim a timelock of another receiver", async function () {
+        await expect(batchTimelock.connect(stranger).claimTimelock(firstTimelockId, 1))
+          .to.be.revertedWithCustomError(batchTimelock, "InvalidReceiverAddress");
+        await expect(batchTimelock.connect(stranger).claim(1))
+          .to.be.revertedWithCustomError(batchTimelock, "InvalidReceiverAddress");
+      });
+    });
+
+    describe("vesting curves", function () {
+      const ONE_MONTH = 30 * 24 * 60 * 60;
+      let timelockReceiver1Address: string;
+      let timelockFrom: number;
+
+      const receiverWith = (schedule: object) => ({
+        receiver: timelockReceiver1Address,
+        totalAmount: ethers.parseEther("1"),
+        timelockFrom,
+        cliffDuration: ONE_MONTH,
+        vestingDuration: ONE_MONTH * 4,
+        ...LINEAR_SCHEDULE,
+        ...schedule,
+      });
+
+      const claimableAt = async (timestamp: number): Promise<bigint> => {
+        await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+        await ethers.provider.send("evm_mine", []);
+        return batchTimelock.getTimelockClaimableBalance(FIRST_TIMELOCK_ID);
+      };
+
+      beforeEach(async function () {
+        timelockReceiver1Address = await timelockReceiver1.getAddress();
+        const block = await ethers.provider.getBlock("latest");
+        timelockFrom = block!.timestamp + 100;
+      });
+
+      it("Should unlock the initial share at the start and vest the rest linearly after the cliff", async function () {
+        await batchTimelock.addTimelockWithSchedule(receiverWith({ initialUnlock: 20_00 }));
+
+        expect(await batchTimelock.getTimelockClaimableBalance(FIRST_TIMELOCK_ID)).to.equal(0);
+        expect(await claimableAt(timelockFrom)).to.equal(ethers.parseEther("0.2"));
+        expect(await claimableAt(timelockFrom + ONE_MONTH * 3)).to.equal(ethers.parseEther("0.6"));
+        expect(await claimableAt(timelockFrom + ONE_MONTH * 5)).to.equal(ethers.parseEther("1"));
+      });
+
+      it("Should allow claiming the initial unlock during the cliff", async function () {
+        await batchTimelock.addTimelockWithSchedule(receiverWith({ initialUnlock: 10_00 }));
+        await ethers.provider.send("evm_setNextBlockTimestamp", [timelockFrom]);
+
+        await expect(batchTimelock.connect(timelockReceiver1).claim(ethers.parseEther("0.1")))
+          .to.emit(batchTimelock, "TokensClaimed")
+          .withArgs(timelockReceiver1Address, FIRST_TIMELOCK_ID, ethers.parseEther("0.1"));
+      });
+
+      it("Should vest in periodic steps", async function () {
+        await batchTimelock.addTimelockWithSchedule(receiverWith({ curve: PERIODIC, initialUnlock: 20_00, stepDuration: ONE_MONTH }));
+
+        expect(await claimableAt(timelockFrom + ONE_MONTH * 2 - 1)).to.equal(ethers.parseEther("0.2"));
+        expect(await claimableAt(timelockFrom + ONE_MONTH * 2)).to.equal(ethers.parseEther("0.4"));
+        expect(await claimableAt(timelockFrom + ONE_MONTH * 4 - 1)).to.equal(ethers.parseEther("0.6"));
+        expect(await claimableAt(timelockFrom + ONE_MONTH * 5)).to.equal(ethers.parseEther("1"));
+      });
+
+      it("Should vest by milestones", async function () {
+        const milestones = [
+          { timestamp: timelockFrom + ONE_MONTH * 2, share: 25_00 },
+          { timestamp: timelockFrom + ONE_MONTH * 6, share: 75_00 },
+        ];
+        await batchTimelock.addTimelockWithSchedule(receiverWith({ curve: MILESTONES, vestingDuration: 0, milestones }));
+
+        const stored = await batchTimelock.getTimelockMilestones(FIRST_TIMELOCK_ID);
+        expect(stored).to.have.lengthOf(2);
+        expect(stored[1].share).to.equal(75_00);
+
+        expect(await claimableAt(timelockFrom + ONE_MONTH * 2 - 1)).to.equal(0);
+        expect(await claimableAt(timelockFrom + ONE_MONTH * 2)).to.equal(ethers.parseEther("0.25"));
+        expect(await claimableAt(timelockFrom + ONE_MONTH * 6)).to.equal(ethers.parseEther("1"));
+      });
+
+      it("Should release everything at the cliff end of a cliff-only timelock", async function () {
+        await batchTimelock.addTimelockWithSchedule(receiverWith({ curve: CLIFF_ONLY, vestingDuration: 0 }));
+
+        expect(await claimableAt(timelockFrom + ONE_MONTH - 1)).to.equal(0);
+        expect(await claimableAt(timelockFrom + ONE_MONTH)).to.equal(ethers.parseEther("1"));
+        await expect(batchTimelock.connect(timelockReceiver1).claim(ethers.parseEther("1")))
+          .to.emit(batchTimelock, "TokensClaimed")
+          .withArgs(timelockReceiver1Address, FIRST_TIMELOCK_ID, ethers.parseEther("1"));
+      });
+
+      it("Should fail to add a timelock with an invalid start or duration", async function () {
+        const maxDuration = 10 * 365 * 24 * 60 * 60;
+        const maxBackdate = 365 * 24 * 60 * 60;
+
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({ vestingDuration: 0 })))
+          .to.be.revertedWithCustomError(batchTimelock, "InvalidVestingDuration")
+          .withArgs(LINEAR, 0);
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({ curve: CLIFF_ONLY })))
+          .to.be.revertedWithCustomError(batchTimelock, "InvalidVestingDuration")
+          .withArgs(CLIFF_ONLY, ONE_MONTH * 4);
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({ vestingDuration: maxDuration })))
+          .to.be.revertedWithCustomError(batchTimelock, "ScheduleDurationTooLong")
+          .withArgs(ONE_MONTH, maxDuration, maxDuration);
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({ cliffDuration: ethers.MaxUint256 })))
+          .to.be.revertedWithCustomError(batchTimelock, "ScheduleDurationTooLong");
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({ timelockFrom: 0 })))
+          .to.be.revertedWithCustomError(batchTimelock, "InvalidTimelockStart");
+        // the transaction is mined in the next block, one second after the latest one
+        const block = await ethers.provider.getBlock("latest");
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({ timelockFrom: block!.timestamp - maxBackdate })))
+          .to.be.revertedWithCustomError(batchTimelock, "TimelockStartTooFarInPast")
+          .withArgs(block!.timestamp - maxBackdate, block!.timestamp + 1 - maxBackdate);
+      });
+
+      it("Should forfeit the steps that vest after the termination", async function () {
+        await batchTimelock.addTimelockWithSchedule(receiverWith({ curve: PERIODIC, stepDuration: ONE_MONTH }));
+
+        await expect(batchTimelock.terminate(FIRST_TIMELOCK_ID, timelockFrom + ONE_MONTH * 3 - 1))
+          .to.emit(batchTimelock, "TimelockForfeited")
+          .withArgs(timelockReceiver1Address, FIRST_TIMELOCK_ID, ethers.parseEther("0.75"));
+      });
+
+      it("Should fail to add a timelock with an inconsistent schedule", async function () {
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({ initialUnlock: 100_01 })))
+          .to.be.revertedWithCustomError(batchTimelock, "InvalidInitialUnlock")
+          .withArgs(100_01);
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({ curve: PERIODIC, stepDuration: ONE_MONTH * 3 })))
+          .to.be.revertedWithCustomError(batchTimelock, "InvalidStepDuration")
+          .withArgs(ONE_MONTH * 3, ONE_MONTH * 4);
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({ stepDuration: ONE_MONTH })))
+          .to.be.revertedWithCustomError(batchTimelock, "InvalidStepDuration");
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({ curve: MILESTONES })))
+          .to.be.revertedWithCustomError(batchTimelock, "InvalidVestingDuration")
+          .withArgs(MILESTONES, ONE_MONTH * 4);
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({ curve: MILESTONES, vestingDuration: 0 })))
+          .to.be.revertedWithCustomError(batchTimelock, "InvalidMilestones");
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({
+          curve: MILESTONES,
+          vestingDuration: 0,
+          milestones: [{ timestamp: timelockFrom + ONE_MONTH, share: 50_00 }, { timestamp: timelockFrom + ONE_MONTH, share: 50_00 }],
+        }))).to.be.revertedWithCustomError(batchTimelock, "InvalidMilestones");
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({
+          curve: MILESTONES,
+          vestingDuration: 0,
+          milestones: [{ timestamp: timelockFrom + ONE_MONTH, share: 50_00 }],
+        }))).to.be.revertedWithCustomError(batchTimelock, "InvalidMilestones");
+        const maxDuration = 10 * 365 * 24 * 60 * 60;
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({
+          curve: MILESTONES,
+          vestingDuration: 0,
+          milestones: [{ timestamp: timelockFrom + maxDuration + 1, share: 100_00 }],
+        })))
+          .to.be.revertedWithCustomError(batchTimelock, "MilestoneTooLate")
+          .withArgs(timelockFrom + maxDuration + 1, timelockFrom + maxDuration);
+        await expect(batchTimelock.addTimelockWithSchedule(receiverWith({
+          curve: MILESTONES,
+          vestingDuration: 0,
+          milestones: [{ timestamp: timelockFrom - 1, share: 50_00 }, { timestamp: timelockFrom + ONE_MONTH, share: 50_00 }],
+        })))
+          .to.be.revertedWithCustomError(batchTimelock, "MilestoneBeforeCliffEnd")
+          .withArgs(timelockFrom - 1, timelockFrom + ONE_MONTH);
+      });
+    });
+
     describe("getClaimableBalance function", function () {
       let timelockReceiver1Address: string;
       let initialVestingAmount: bigint;
@@ -346,7 +599,7 @@ describe("BatchTimelock Contract", function () {
 
       it("Should return 0 if terminated before the cliff period ends", async function () {
         const terminationTime = timelockFrom + cliffDuration / 2;
-        await batchTimelock.connect(deployer).terminate(timelockReceiver1Address, terminationTime);
+        await batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, terminationTime);
 
         await ethers.provider.send("evm_increaseTime", [terminationTime]);
         await ethers.provider.send("evm_mine", []);
@@ -357,7 +610,7 @@ describe("BatchTimelock Contract", function () {
 
       it("Should reflect the vested amount until the termination time if terminated during vesting", async function () {
         const terminationTime = timelockFrom + cliffDuration + vestingDuration / 2;
-        await batchTimelock.connect(deployer).terminate(timelockReceiver1Address, terminationTime);
+        await batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, terminationTime);
 
         await ethers.provider.send("evm_increaseTime", [terminationTime]);
         await ethers.provider.send("evm_mine", []);
@@ -371,11 +624,11 @@ describe("BatchTimelock Contract", function () {
     describe("getTimelock function", function () {
       beforeEach(async function () {
         timelockReceiver1Address = await timelockReceiver1.getAddress();
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
       });
 
       it("Should return the correct timelock", async function () {
-        const timelock = await batchTimelock.getTimelock(timelockReceiver1Address);
+        const timelock = await batchTimelock.getTimelock(FIRST_TIMELOCK_ID);
         expect(timelock.receiver).to.equal(timelockReceiver1Address);
         expect(timelock.totalAmount).to.equal(TIMELOCK_AMOUNT);
         expect(timelock.cliffDuration).to.equal(CLIFF_DURATION);
@@ -393,10 +646,10 @@ describe("BatchTimelock Contract", function () {
         timelockReceiver2Address = await timelockReceiver2.getAddress();
         timelockReceiver3Address = await timelockReceiver3.getAddress();
         timelockReceiver4Address = await timelockReceiver4.getAddress();
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver2Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver3Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver4Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver2Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver3Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver4Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
       });
 
       it('Should return the correct timelock receivers', async function () {
@@ -429,10 +682,10 @@ describe("BatchTimelock Contract", function () {
         timelockReceiver2Address = await timelockReceiver2.getAddress();
         timelockReceiver3Address = await timelockReceiver3.getAddress();
         timelockReceiver4Address = await timelockReceiver4.getAddress();
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver2Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver3Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver4Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver2Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver3Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver4Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
         const timelockReceiversAmount = await batchTimelock.getTimelockReceiversAmount();
         expect(timelockReceiversAmount).to.equal(4);
       });
@@ -456,10 +709,10 @@ describe("BatchTimelock Contract", function () {
         timelockReceiver2Address = await timelockReceiver2.getAddress();
         timelockReceiver3Address = await timelockReceiver3.getAddress();
         timelockReceiver4Address = await timelockReceiver4.getAddress();
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver2Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver3Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver4Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver2Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver3Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver4Address, TIMELOCK_AMOUNT, timestampNow, CLIFF_DURATION, VESTING_DURATION);
         const totalTokensLocked = await batchTimelock.getTotalTokensLocked();
         expect(totalTokensLocked).to.equal(ethers.parseEther('4'));
       });
@@ -473,33 +726,132 @@ describe("BatchTimelock Contract", function () {
     describe("terminate and determinate functions", function () {
       const CLAIM_AMOUNT = ethers.parseEther("0.1");
       let timelockReceiver1Address: string;
+      let timelockFrom: number;
 
       beforeEach(async function () {
         timelockReceiver1Address = await timelockReceiver1.getAddress();
-        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, TIMESTAMP_NOW, CLIFF_DURATION, VESTING_DURATION);
+        const block = await ethers.provider.getBlock("latest");
+        timelockFrom = block!.timestamp;
+        await batchTimelock.connect(deployer).addTimelock(timelockReceiver1Address, TIMELOCK_AMOUNT, timelockFrom, CLIFF_DURATION, VESTING_DURATION);
       });
 
       it("Should decrease withdrawable amount if terminated", async function () {
-        const halfVestingTimestamp = TIMESTAMP_NOW + CLIFF_DURATION + (VESTING_DURATION / 2) + 1;
-        await batchTimelock.connect(deployer).terminate(timelockReceiver1Address, halfVestingTimestamp);
+        const halfVestingTimestamp = timelockFrom + CLIFF_DURATION + (VESTING_DURATION / 2) + 1;
+        await batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, halfVestingTimestamp);
 
-        await ethers.provider.send("evm_increaseTime", [halfVestingTimestamp]);
+        await ethers.provider.send("evm_increaseTime", [CLIFF_DURATION + VESTING_DURATION]);
         await ethers.provider.send("evm_mine", []);
 
         const withdrawableBalance = await batchTimelock.getClaimableBalance(timelockReceiver1Address);
 
         await expect(batchTimelock.connect(timelockReceiver1).claim(withdrawableBalance))
           .to.emit(batchTimelock, 'TokensClaimed')
-          .withArgs(timelockReceiver1Address, withdrawableBalance);
+          .withArgs(timelockReceiver1Address, FIRST_TIMELOCK_ID, withdrawableBalance);
+      });
+
+      it("Should forfeit the tokens that vest after the termination", async function () {
+        const halfVestingTimestamp = timelockFrom + CLIFF_DURATION + (VESTING_DURATION / 2);
+        const forfeited = ethers.parseEther("0.5");
+
+        await expect(batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, halfVestingTimestamp))
+          .to.emit(batchTimelock, "TimelockTerminated")
+          .withArgs(timelockReceiver1Address, FIRST_TIMELOCK_ID, halfVestingTimestamp)
+          .and.to.emit(batchTimelock, "TimelockForfeited")
+          .withArgs(timelockReceiver1Address, FIRST_TIMELOCK_ID, forfeited);
+
+        expect((await batchTimelock.getTimelock(FIRST_TIMELOCK_ID)).forfeitedAmount).to.equal(forfeited);
+        expect(await batchTimelock.getTotalTokensForfeited()).to.equal(forfeited);
+        expect(await batchTimelock.getTotalTokensLocked()).to.equal(ethers.parseEther("0.5"));
+        expect(await batchTimelock.getTotalTokensUnclaimed()).to.equal(ethers.parseEther("0.5"));
+      });
+
+      it("Should forfeit the whole amount if terminated before the cliff ends", async function () {
+        await batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, timelockFrom + 1);
+
+        expect((await batchTimelock.getTimelock(FIRST_TIMELOCK_ID)).forfeitedAmount).to.equal(TIMELOCK_AMOUNT);
+        expect(await batchTimelock.getTotalTokensLocked()).to.equal(0);
+      });
+
+      it("Should restore the forfeited tokens after determinate", async function () {
+        await batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, timelockFrom + CLIFF_DURATION);
+        await batchTimelock.connect(deployer).determinate(FIRST_TIMELOCK_ID);
+
+        expect((await batchTimelock.getTimelock(FIRST_TIMELOCK_ID)).forfeitedAmount).to.equal(0);
+        expect(await batchTimelock.getTotalTokensForfeited()).to.equal(0);
+        expect(await batchTimelock.getTotalTokensLocked()).to.equal(TIMELOCK_AMOUNT);
       });
 
       it("Should re-enable claiming after determinate", async function () {
-        const dateNow = Math.floor(Date.now() / 1000);
-        await batchTimelock.connect(deployer).terminate(timelockReceiver1Address, dateNow);
-        await batchTimelock.connect(deployer).determinate(timelockReceiver1Address);
+        await batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, timelockFrom + CLIFF_DURATION);
+        await batchTimelock.connect(deployer).determinate(FIRST_TIMELOCK_ID);
+        await ethers.provider.send("evm_increaseTime", [CLIFF_DURATION + VESTING_DURATION / 2]);
+        await ethers.provider.send("evm_mine", []);
         await expect(batchTimelock.connect(timelockReceiver1).claim(CLAIM_AMOUNT))
           .not.to.be.reverted;
       });
+
+      it("Should move a pending termination and record the history", async function () {
+        const firstDate = timelockFrom + CLIFF_DURATION + VESTING_DURATION / 2;
+        const secondDate = timelockFrom + CLIFF_DURATION;
+        await batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, firstDate);
+        await batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, secondDate);
+        await batchTimelock.connect(deployer).determinate(FIRST_TIMELOCK_ID);
+
+        const history = await batchTimelock.getTerminationHistory(FIRST_TIMELOCK_ID);
+        expect(history).to.have.lengthOf(3);
+        expect(history[0].terminationFrom).to.equal(firstDate);
+        expect(history[0].forfeitedAmount).to.equal(ethers.parseEther("0.5"));
+        expect(history[0].recordedBy).to.equal(await deployer.getAddress());
+        expect(history[1].terminationFrom).to.equal(secondDate);
+        expect(history[1].forfeitedAmount).to.equal(TIMELOCK_AMOUNT);
+        expect(history[2].terminationFrom).to.equal(0);
+        expect(history[2].forfeitedAmount).to.equal(0);
+      });
+
+      it("Should fail to move or reverse a termination that took effect", async function () {
+        const terminationTime = timelockFrom + CLIFF_DURATION;
+        await batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, terminationTime);
+        await ethers.provider.send("evm_increaseTime", [CLIFF_DURATION]);
+        await ethers.provider.send("evm_mine", []);
+
+        await expect(batchTimelock.connect(deployer).determinate(FIRST_TIMELOCK_ID))
+          .to.be.revertedWithCustomError(batchTimelock, "TerminationAlreadyEffective")
+          .withArgs(FIRST_TIMELOCK_ID, terminationTime);
+        await expect(batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, terminationTime + 1))
+          .to.be.revertedWithCustomError(batchTimelock, "TerminationAlreadyEffective");
+      });
+
+      it("Should fail to terminate before the already claimed tokens", async function () {
+        await ethers.provider.send("evm_increaseTime", [CLIFF_DURATION + VESTING_DURATION / 2]);
+        await ethers.provider.send("evm_mine", []);
+        await batchTimelock.connect(timelockReceiver1).claim(ethers.parseEther("0.4"));
+
+        const terminationTime = timelockFrom + CLIFF_DURATION + VESTING_DURATION / 4;
+        await expect(batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, terminationTime))
+          .to.be.revertedWithCustomError(batchTimelock, "TerminationTimeBeforeClaimedTokens")
+          .withArgs(FIRST_TIMELOCK_ID, terminationTime);
+      });
+
+      it("Should fail to terminate after the vesting end", async function () {
+        const vestingEnd = timelockFrom + CLIFF_DURATION + VESTING_DURATION;
+        await expect(batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID, vestingEnd + 1))
+          .to.be.revertedWithCustomError(batchTimelock, "TerminationTimeMustBeBeforeVestingEnd")
+          .withArgs(vestingEnd + 1, vestingEnd);
+      });
+
+      it("Should fail to terminate or determinate a non-existing timelock", async function () {
+        await expect(batchTimelock.connect(deployer).terminate(FIRST_TIMELOCK_ID + 1, timelockFrom + 1))
+          .to.be.revertedWithCustomError(batchTimelock, "TimelockDoesNotExist")
+          .withArgs(FIRST_TIMELOCK_ID + 1);
+        await expect(batchTimelock.connect(deployer).determinate(FIRST_TIMELOCK_ID + 1))
+          .to.be.revertedWithCustomError(batchTimelock, "TimelockDoesNotExist");
+      });
+
+      it("Should fail to determinate a timelock that is not terminated", async function () {
+        await expect(batchTimelock.connect(deployer).determinate(FIRST_TIMELOCK_ID))
+          .to.be.revertedWithCustomError(batchTimelock, "TimelockIsNotTerminated")
+          .withArgs(FIRST_TIMELOCK_ID);
+      });
     });
 
     describe('getVestingPoolAddress', function () {
@@ -2,6 +2,9 @@ import { expect } from "chai";
 import { ethers, run } from "hardhat";
 import { BigNumberish, Signer, formatUnits, id } from "ethers";
 import { StakingManagement, Staking, IQTMock } from "../typechain";
+import fs from "fs";
+import os from "os";
+import path from "path";
 
 export const solidityIdBytes32 = (string: string): string => {
   return id(string);
@@ -356,163 +359,1422 @@ describe("Staking Contract", function () {
       });
     });
 
+    describe("stakeFor and stakeWithPermit", function () {
+      const APY = 10_50;
+      const ONE_MONTH_IN_SECONDS = 2629746;
+      const STAKING_AMOUNT = ethers.parseEther('100');
+      const QUARTER_STAKING_AMOUNT = ethers.parseEther('25');
+
+      let planId: BigNumberish;
+
+      const signPermit = async (owner: Signer, value: bigint, deadline: bigint) => {
+        const { chainId } = await ethers.provider.getNetwork();
+        const ownerAddress = await owner.getAddress();
+        const signature = await owner.signTypedData(
+          { name: await stakingToken.name(), version: "1", chainId, verifyingContract: await stakingToken.getAddress() },
+          {
+            Permit: [
+              { name: "owner", type: "address" },
+              { name: "spender", type: "address" },
+              { name: "value", type: "uint256" },
+              { name: "nonce", type: "uint256" },
+              { name: "deadline", type: "uint256" },
+            ],
+          },
+          {
+            owner: ownerAddress,
+            spender: await staking.getAddress(),
+            value,
+            nonce: await stakingToken.nonces(ownerAddress),
+            deadline,
+          }
+        );
+        return ethers.Signature.from(signature);
+      };
+
+      const deadline = async () => BigInt((await ethers.provider.getBlock('latest'))!.timestamp + 3600);
+
+      beforeEach(async function () {
+        await stakingToken.connect(deployer).transfer(await staker1.getAddress(), STAKING_AMOUNT);
+        await stakingToken.connect(deployer).approve(staking.target, STAKING_AMOUNT);
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(QUARTER_STAKING_AMOUNT, QUARTER_STAKING_AMOUNT);
+      });
+
+      it("should open a stake owned by the beneficiary and paid by the caller", async function () {
+        const deployerAddress = await deployer.getAddress();
+        const staker2Address = await staker2.getAddress();
+        const deployerBalanceBefore = await stakingToken.balanceOf(deployerAddress);
+        const stakeId = await staking.connect(deployer).stakeFor.staticCall(staker2Address, QUARTER_STAKING_AMOUNT, planId);
+        await expect(staking.connect(deployer).stakeFor(staker2Address, QUARTER_STAKING_AMOUNT, planId))
+          .to.emit(staking, "StakeAdded")
+          .withArgs(staker2Address, stakeId);
+
+        const stakeRecord = await staking.getStake(stakeId);
+        expect(stakeRecord.staker).to.equal(staker2Address);
+        expect(await staking.getStakeIds(staker2Address)).to.deep.equal([stakeId]);
+        expect(await staking.getStakesCount(deployerAddress)).to.equal(0);
+        expect(deployerBalanceBefore - await stakingToken.balanceOf(deployerAddress)).to.equal(QUARTER_STAKING_AMOUNT);
+      });
+
+      it("should let only the beneficiary withdraw a stake opened for them", async function () {
+        const staker2Address = await staker2.getAddress();
+        const stakeId = await staking.connect(deployer).stakeFor.staticCall(staker2Address, QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(deployer).stakeFor(staker2Address, QUARTER_STAKING_AMOUNT, planId);
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+
+        await expect(staking.connect(deployer).withdraw(stakeId))
+          .to.be.revertedWithCustomError(staking, "CallerIsNotStakeOwner")
+          .withArgs(stakeId);
+
+        const quote = await staking.quoteWithdrawal(stakeId);
+        const balanceBefore = await stakingToken.balanceOf(staker2Address);
+        await staking.connect(staker2).withdraw(stakeId);
+        expect(await stakingToken.balanceOf(staker2Address) - balanceBefore).to.equal(quote.withdrawalAmount);
+      });
+
+      it("should revert when staking for the zero address", async function () {
+        await expect(staking.connect(deployer).stakeFor(ZERO_ADDRESS, QUARTER_STAKING_AMOUNT, planId))
+          .to.be.revertedWithCustomError(staking, "InvalidBeneficiary");
+      });
+
+      it("should stake with a permit in a single transaction", async function () {
+        const staker1Address = await staker1.getAddress();
+        const permitDeadline = await deadline();
+        const { v, r, s } = await signPermit(staker1, QUARTER_STAKING_AMOUNT, permitDeadline);
+
+        const stakeId = await staking.connect(staker1).stakeWithPermit.staticCall(QUARTER_STAKING_AMOUNT, planId, permitDeadline, v, r, s);
+        await staking.connect(staker1).stakeWithPermit(QUARTER_STAKING_AMOUNT, planId, permitDeadline, v, r, s);
+
+        const stakeRecord = await staking.getStake(stakeId);
+        expect(stakeRecord.staker).to.equal(staker1Address);
+        expect(stakeRecord.amount).to.equal(QUARTER_STAKING_AMOUNT);
+        expect(await stakingToken.allowance(staker1Address, staking.target)).to.equal(0);
+      });
+
+      it("should stake with a permit that was already submitted by someone else", async function () {
+        const staker1Address = await staker1.getAddress();
+        const permitDeadline = await deadline();
+        const { v, r, s } = await signPermit(staker1, QUARTER_STAKING_AMOUNT, permitDeadline);
+        await stakingToken.connect(stranger).permit(staker1Address, staking.target, QUARTER_STAKING_AMOUNT, permitDeadline, v, r, s);
+
+        await expect(staking.connect(staker1).stakeWithPermit(QUARTER_STAKING_AMOUNT, planId, permitDeadline, v, r, s))
+          .to.not.be.reverted;
+      });
+
+      it("should revert with an invalid permit and no allowance", async function () {
+        const permitDeadline = await deadline();
+        const { v, r, s } = await signPermit(staker2, QUARTER_STAKING_AMOUNT, permitDeadline);
+
+        await expect(staking.connect(staker1).stakeWithPermit(QUARTER_STAKING_AMOUNT, planId, permitDeadline, v, r, s))
+          .to.be.revertedWith("ERC20: insufficient allowance");
+      });
+    });
+
     describe("withdraw", function () {
       /** APYs */
       const ONE_MONTH_APY = 10_50;
       /** Time Frames */
       const ONE_MONTH_IN_SECONDS = 2629746;
-      /** Staking amounts */
+      /** Staking amounts */
+      const STAKING_AMOUNT = ethers.parseEther('100');
+      const QUARTER_STAKING_AMOUNT = ethers.parseEther('25');
+      const NON_EXISTING_PLAN_ID = 999;
+      const NON_EXISTING_STAKE_ID = 999;
+
+      let oneMonthStakingPlanId: BigNumberish;
+
+      beforeEach(async function () {
+        const staker1Address = await staker1.getAddress();
+        const staker2Address = await staker2.getAddress();
+        const staker3Address = await staker3.getAddress();
+        const staker4Address = await staker4.getAddress();
+        await stakingToken.connect(deployer).transfer(staker1Address, STAKING_AMOUNT);
+        await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT);
+        await stakingToken.connect(deployer).transfer(staker2Address, STAKING_AMOUNT);
+        await stakingToken.connect(staker2).approve(staking.target, STAKING_AMOUNT);
+        await stakingToken.connect(deployer).transfer(staker3Address, STAKING_AMOUNT);
+        await stakingToken.connect(staker3).approve(staking.target, STAKING_AMOUNT);
+        await stakingToken.connect(deployer).transfer(staker4Address, STAKING_AMOUNT);
+        await stakingToken.connect(staker4).approve(staking.target, STAKING_AMOUNT);
+        oneMonthStakingPlanId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(QUARTER_STAKING_AMOUNT, QUARTER_STAKING_AMOUNT);
+      });
+
+      it("should withdraw", async function () {
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        const estimatedStakeEarnings = await staking.estimateStakeEarnings(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        await expect(staking.connect(staker1).withdraw(stakeId)).to.not.be.reverted;
+        const expectedStakeEarnings = calculateExpectedEarnings({
+          stakingAmount: QUARTER_STAKING_AMOUNT,
+          stakingPeriod: BigInt(ONE_MONTH_IN_SECONDS),
+          apy: BigInt(ONE_MONTH_APY),
+        });
+        const stakeRecord = await staking.getStake(stakeId);
+        expect(stakeRecord.earlyWithdrawal).to.equal(false);
+        expect(stakeRecord.withdrawn).to.equal(true);
+        expect(expectedStakeEarnings.expectedEarningsInTokens).to.eq(estimatedStakeEarnings.predictedEarningsInTokens);
+        expect(expectedStakeEarnings.expectedEarningsPercentage).to.eq(estimatedStakeEarnings.predictedEarningsPercentage);
+        expect(stakeRecord.earningsInTokens).to.equal(expectedStakeEarnings.expectedEarningsInTokens);
+        expect(stakeRecord.earningsPercentage).to.equal(expectedStakeEarnings.expectedEarningsPercentage);
+        expect(stakeRecord.startTimestamp).to.equal(stakeRecord.endTimestamp - BigInt(ONE_MONTH_IN_SECONDS));
+
+      });
+
+      it("should emit an event when withdrawing", async function () {
+        const staker1Address = await staker1.getAddress();
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        await expect(staking.connect(staker1).withdraw(stakeId))
+          .to.emit(staking, "StakeWithdrawn")
+          .withArgs(staker1Address, stakeId);
+      });
+
+      it("should allow to withdraw only initial stake if early withdrawal", async function () {
+        let stakeRecord;
+
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        const currentBlock = await ethers.provider.getBlock('latest');
+        const stakeTimestamp = currentBlock!.timestamp;
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        stakeRecord = await staking.getStake(stakeId);
+        const initialStakeEndTimestamp = stakeRecord.endTimestamp;
+        await stakingManagement.connect(deployer).enableWithdraw();
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS / 2]);
+        await ethers.provider.send("evm_mine");
+        const balanceBeforeWithdrawal = await stakingToken.balanceOf(await staker1.getAddress());
+        await expect(staking.connect(staker1).withdraw(stakeId)).to.not.be.reverted;
+        const balanceAfterWithdrawal = await stakingToken.balanceOf(await staker1.getAddress());
+        stakeRecord = await staking.getStake(stakeId);
+        expect(balanceAfterWithdrawal).to.equal(balanceBeforeWithdrawal + QUARTER_STAKING_AMOUNT);
+        expect(stakeRecord.earlyWithdrawal).to.equal(true);
+        expect(stakeRecord.earningsInTokens).to.equal(0n);
+        expect(stakeRecord.earningsPercentage).to.equal(0n);
+        expect(stakeRecord.withdrawn).to.equal(true);
+        expect(stakeRecord.endTimestamp).to.be.gt(stakeTimestamp);
+        expect(stakeRecord.endTimestamp).to.be.lt(initialStakeEndTimestamp);
+      });
+
+      it("should decrease the amount of stakes per plan once withdrawn", async function () {
+        let stakesPerPlan;
+        stakesPerPlan = await staking.getStakesAmountPerPlan(oneMonthStakingPlanId);
+        expect(stakesPerPlan).to.equal(0);
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        stakesPerPlan = await staking.getStakesAmountPerPlan(oneMonthStakingPlanId);
+        expect(stakesPerPlan).to.equal(1);
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        await expect(staking.connect(staker1).withdraw(stakeId)).to.not.be.reverted;
+        stakesPerPlan = await staking.getStakesAmountPerPlan(oneMonthStakingPlanId);
+        expect(stakesPerPlan).to.equal(0);
+      });
+
+      it("should revert when stake does not exist", async function () {
+        await expect(staking.connect(staker1).withdraw(NON_EXISTING_STAKE_ID)).to.be.revertedWithCustomError(
+          staking,
+          "StakeDoesNotExist"
+        );
+      });
+
+      it("should revert when stake is attempted to be withdrawn by stranger", async function () {
+        const staker1Address = await staker1.getAddress();
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        await expect(staking.connect(stranger).withdraw(stakeId)).to.be.revertedWithCustomError(
+          staking,
+          "CallerIsNotStakeOwner"
+        );
+      });
+
+      it("should revert when stake is already withdrawn", async function () {
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        await staking.connect(staker1).withdraw(stakeId);
+        await expect(staking.connect(staker1).withdraw(stakeId)).to.be.revertedWithCustomError(
+          staking,
+          "StakeAlreadyWithdrawn"
+        );
+      });
+
+      it("should revert when stake is not matured and early withdrawal disabled", async function () {
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await expect(staking.connect(staker1).withdraw(stakeId)).to.be.revertedWithCustomError(
+          staking,
+          "EarlyWithdrawalNotAllowed"
+        );
+      });
+
+      it("should revert when staking pool is empty", async function () {
+        const stakingPoolAddress = await stakingPool.getAddress();
+        const strangerAddress = await stranger.getAddress();
+        const stakingPoolBalance = await stakingToken.balanceOf(stakingPoolAddress);
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        await stakingToken.connect(stakingPool).transfer(strangerAddress, stakingPoolBalance);
+        await expect(staking.connect(staker1).withdraw(stakeId)).to.be.revertedWith(
+          "ERC20: transfer amount exceeds balance"
+        );
+      });
+    });
+
+    describe("plan terms snapshot", function () {
+      /** APYs */
+      const ONE_MONTH_APY = 10_50;
+      const UPDATED_APY = 50_00;
+      /** Time Frames */
+      const ONE_MONTH_IN_SECONDS = 2629746;
+      const THREE_MONTHS_IN_SECONDS = 7889238;
+      /** Staking amounts */
+      const STAKING_AMOUNT = ethers.parseEther('100');
+      const QUARTER_STAKING_AMOUNT = ethers.parseEther('25');
+
+      let oneMonthStakingPlanId: BigNumberish;
+      let stakeId: BigNumberish;
+
+      beforeEach(async function () {
+        const staker1Address = await staker1.getAddress();
+        await stakingToken.connect(deployer).transfer(staker1Address, STAKING_AMOUNT);
+        await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT);
+        oneMonthStakingPlanId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(QUARTER_STAKING_AMOUNT, QUARTER_STAKING_AMOUNT);
+        stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+      });
+
+      it("should record the plan terms in the stake", async function () {
+        const stakeRecord = await staking.getStake(stakeId);
+        expect(stakeRecord.apy).to.equal(ONE_MONTH_APY);
+        expect(stakeRecord.duration).to.equal(ONE_MONTH_IN_SECONDS);
+        expect(stakeRecord.endTimestamp - stakeRecord.startTimestamp).to.equal(ONE_MONTH_IN_SECONDS);
+      });
+
+      it("should not re-price accrued earnings after a plan update", async function () {
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS / 2]);
+        await ethers.provider.send("evm_mine");
+        const earningsBefore = await staking.calculateStakeEarnings(stakeId);
+
+        await stakingManagement.connect(stakingManager).updateStakingPlan(oneMonthStakingPlanId, THREE_MONTHS_IN_SECONDS, UPDATED_APY);
+
+        const earningsAfter = await staking.calculateStakeEarnings(stakeId);
+        expect(earningsAfter.earningsInTokens).to.equal(earningsBefore.earningsInTokens);
+        expect(earningsAfter.earningsPercentage).to.equal(earningsBefore.earningsPercentage);
+      });
+
+      it("should pay out the original terms at maturity after a plan update", async function () {
+        const staker1Address = await staker1.getAddress();
+        await stakingManagement.connect(stakingManager).updateStakingPlan(oneMonthStakingPlanId, THREE_MONTHS_IN_SECONDS, UPDATED_APY);
+
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+
+        const balanceBefore = await stakingToken.balanceOf(staker1Address);
+        await staking.connect(staker1).withdraw(stakeId);
+        const balanceAfter = await stakingToken.balanceOf(staker1Address);
+
+        const expectedStakeEarnings = calculateExpectedEarnings({
+          stakingAmount: QUARTER_STAKING_AMOUNT,
+          stakingPeriod: BigInt(ONE_MONTH_IN_SECONDS),
+          apy: BigInt(ONE_MONTH_APY),
+        });
+        const stakeRecord = await staking.getStake(stakeId);
+        expect(stakeRecord.earningsInTokens).to.equal(expectedStakeEarnings.expectedEarningsInTokens);
+        expect(balanceAfter - balanceBefore).to.equal(expectedStakeEarnings.expectedBalance);
+      });
+
+      it("should apply updated terms to new stakes only", async function () {
+        await stakingManagement.connect(stakingManager).updateStakingPlan(oneMonthStakingPlanId, THREE_MONTHS_IN_SECONDS, UPDATED_APY);
+        const newStakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+
+        const oldStake = await staking.getStake(stakeId);
+        const newStake = await staking.getStake(newStakeId);
+        expect(oldStake.apy).to.equal(ONE_MONTH_APY);
+        expect(oldStake.duration).to.equal(ONE_MONTH_IN_SECONDS);
+        expect(newStake.apy).to.equal(UPDATED_APY);
+        expect(newStake.duration).to.equal(THREE_MONTHS_IN_SECONDS);
+
+        const estimatedEarnings = await staking.estimateStakeEarnings(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        const expectedStakeEarnings = calculateExpectedEarnings({
+          stakingAmount: QUARTER_STAKING_AMOUNT,
+          stakingPeriod: BigInt(THREE_MONTHS_IN_SECONDS),
+          apy: BigInt(UPDATED_APY),
+        });
+        expect(estimatedEarnings.predictedEarningsInTokens).to.equal(expectedStakeEarnings.expectedEarningsInTokens);
+      });
+
+      it("should keep earnings of a deactivated plan", async function () {
+        await stakingManagement.connect(stakingManager).deactivateStakingPlan(oneMonthStakingPlanId);
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+
+        const stakeEarnings = await staking.calculateStakeEarnings(stakeId);
+        const expectedStakeEarnings = calculateExpectedEarnings({
+          stakingAmount: QUARTER_STAKING_AMOUNT,
+          stakingPeriod: BigInt(ONE_MONTH_IN_SECONDS),
+          apy: BigInt(ONE_MONTH_APY),
+        });
+        expect(stakeEarnings.earningsInTokens).to.equal(expectedStakeEarnings.expectedEarningsInTokens);
+      });
+    });
+
+    describe("interest models", function () {
+      const INTEREST_MODEL = {
+        CompoundDaily: 0,
+        CompoundWeekly: 1,
+        CompoundMonthly: 2,
+        CompoundAtMaturity: 3,
+        Simple: 4,
+      };
+      const APY = 12_00;
+      const SECONDS_IN_DAY = 24 * 60 * 60;
+      const ONE_YEAR_IN_SECONDS = 365 * SECONDS_IN_DAY;
+      const STAKING_AMOUNT = ethers.parseEther('100');
+
+      let planId: BigNumberish;
+
+      beforeEach(async function () {
+        const staker1Address = await staker1.getAddress();
+        await stakingToken.connect(deployer).transfer(staker1Address, STAKING_AMOUNT);
+        await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT);
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_YEAR_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_YEAR_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(STAKING_AMOUNT, STAKING_AMOUNT);
+      });
+
+      it("should compound daily by default", async function () {
+        const plan = await stakingManagement.getStakingPlan(planId);
+        const estimatedEarnings = await staking.estimateStakeEarnings(STAKING_AMOUNT, planId);
+        const expectedStakeEarnings = calculateExpectedEarnings({
+          stakingAmount: STAKING_AMOUNT,
+          stakingPeriod: BigInt(ONE_YEAR_IN_SECONDS),
+          apy: BigInt(APY),
+        });
+        expect(plan.interestModel).to.equal(INTEREST_MODEL.CompoundDaily);
+        expect(estimatedEarnings.predictedEarningsInTokens).to.equal(expectedStakeEarnings.expectedEarningsInTokens);
+      });
+
+      it("should estimate weekly and monthly compounding", async function () {
+        for (const [interestModel, compoundingPeriod] of [
+          [INTEREST_MODEL.CompoundWeekly, 7 * SECONDS_IN_DAY],
+          [INTEREST_MODEL.CompoundMonthly, 30 * SECONDS_IN_DAY],
+        ]) {
+          await stakingManagement.connect(stakingManager).setStakingPlanInterestModel(planId, interestModel);
+          const estimatedEarnings = await staking.estimateStakeEarnings(STAKING_AMOUNT, planId);
+          const expectedStakeEarnings = calculateExpectedEarnings({
+            stakingAmount: STAKING_AMOUNT,
+            stakingPeriod: BigInt(ONE_YEAR_IN_SECONDS),
+            apy: BigInt(APY),
+            compoundingPeriod: BigInt(compoundingPeriod),
+          });
+          expect(estimatedEarnings.predictedEarningsInTokens).to.equal(expectedStakeEarnings.expectedEarningsInTokens);
+        }
+      });
+
+      it("should pay the flat rate for simple interest plans", async function () {
+        await stakingManagement.connect(stakingManager).setStakingPlanInterestModel(planId, INTEREST_MODEL.Simple);
+        const estimatedEarnings = await staking.estimateStakeEarnings(STAKING_AMOUNT, planId);
+        expect(estimatedEarnings.predictedEarningsInTokens).to.equal(ethers.parseEther('12'));
+        expect(estimatedEarnings.predictedEarningsPercentage).to.equal(APY);
+      });
+
+      it("should accrue simple interest for every full day", async function () {
+        await stakingManagement.connect(stakingManager).setStakingPlanInterestModel(planId, INTEREST_MODEL.Simple);
+        const stakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+
+        await ethers.provider.send("evm_increaseTime", [100 * SECONDS_IN_DAY + SECONDS_IN_DAY / 2]);
+        await ethers.provider.send("evm_mine");
+
+        const stakeEarnings = await staking.calculateStakeEarnings(stakeId);
+        expect(stakeEarnings.earningsInTokens).to.equal(calculateExpectedSimpleEarnings({
+          stakingAmount: STAKING_AMOUNT,
+          stakingPeriod: BigInt(100 * SECONDS_IN_DAY),
+          apy: BigInt(APY),
+        }));
+      });
+
+      it("should credit interest compounded at maturity only once the stake ends", async function () {
+        await stakingManagement.connect(stakingManager).setStakingPlanInterestModel(planId, INTEREST_MODEL.CompoundAtMaturity);
+        const stakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+
+        await ethers.provider.send("evm_increaseTime", [ONE_YEAR_IN_SECONDS - SECONDS_IN_DAY]);
+        await ethers.provider.send("evm_mine");
+        expect((await staking.calculateStakeEarnings(stakeId)).earningsInTokens).to.equal(0);
+
+        await ethers.provider.send("evm_increaseTime", [SECONDS_IN_DAY]);
+        await ethers.provider.send("evm_mine");
+        expect((await staking.calculateStakeEarnings(stakeId)).earningsInTokens).to.equal(ethers.parseEther('12'));
+      });
+
+      it("should reserve earnings of the interest model in the staking pool", async function () {
+        await stakingManagement.connect(stakingManager).setStakingPlanInterestModel(planId, INTEREST_MODEL.Simple);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+        expect(await staking.getStakingPoolSize()).to.equal(STAKING_AMOUNT + ethers.parseEther('12'));
+      });
+
+      it("should keep the interest model of existing stakes", async function () {
+        await stakingManagement.connect(stakingManager).setStakingPlanInterestModel(planId, INTEREST_MODEL.Simple);
+        const stakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+
+        await stakingManagement.connect(stakingManager).setStakingPlanInterestModel(planId, INTEREST_MODEL.CompoundDaily);
+        await ethers.provider.send("evm_increaseTime", [ONE_YEAR_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+
+        const stakeRecord = await staking.getStake(stakeId);
+        expect(stakeRecord.interestModel).to.equal(INTEREST_MODEL.Simple);
+        expect((await staking.calculateStakeEarnings(stakeId)).earningsInTokens).to.equal(ethers.parseEther('12'));
+      });
+    });
+
+    describe("early withdrawal rules", function () {
+      const APY = 12_00;
+      const PENALTY = 5_00;
+      const EARNINGS_SHARE = 50_00;
+      const SECONDS_IN_DAY = 24 * 60 * 60;
+      const MINIMUM_LOCK = 7 * SECONDS_IN_DAY;
+      const ONE_MONTH_IN_SECONDS = 2629746;
+      const STAKING_AMOUNT = ethers.parseEther('100');
+
+      let planId: BigNumberish;
+      let stakeId: BigNumberish;
+
+      beforeEach(async function () {
+        const staker1Address = await staker1.getAddress();
+        await stakingToken.connect(deployer).transfer(staker1Address, STAKING_AMOUNT);
+        await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT);
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(STAKING_AMOUNT, STAKING_AMOUNT);
+        await stakingManagement.connect(stakingManager).setEarlyWithdrawalRules(planId, {
+          isEnabled: true,
+          penalty: PENALTY,
+          earningsShare: EARNINGS_SHARE,
+          minimumLock: MINIMUM_LOCK,
+        });
+        stakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+      });
+
+      it("should not allow an early withdrawal before the minimum lock", async function () {
+        const stakeRecord = await staking.getStake(stakeId);
+        await expect(staking.connect(staker1).withdraw(stakeId))
+          .to.be.revertedWithCustomError(staking, "EarlyWithdrawalLocked")
+          .withArgs(stakeId, stakeRecord.startTimestamp + BigInt(MINIMUM_LOCK));
+        await expect(staking.quoteWithdrawal(stakeId))
+          .to.be.revertedWithCustomError(staking, "EarlyWithdrawalLocked");
+      });
+
+      it("should allow an early withdrawal while global withdrawals are disabled", async function () {
+        expect(await stakingManagement.isWithdrawEnabled()).to.equal(false);
+        await ethers.provider.send("evm_increaseTime", [MINIMUM_LOCK]);
+        await ethers.provider.send("evm_mine");
+        await expect(staking.connect(staker1).withdraw(stakeId)).to.not.be.reverted;
+      });
+
+      it("should quote and pay the principal minus penalty plus a share of the earnings", async function () {
+        const staker1Address = await staker1.getAddress();
+        await ethers.provider.send("evm_increaseTime", [10 * SECONDS_IN_DAY]);
+        await ethers.provider.send("evm_mine");
+
+        const accrued = await staking.calculateStakeEarnings(stakeId);
+        const quote = await staking.quoteWithdrawal(stakeId);
+        const expectedPenalty = (STAKING_AMOUNT * BigInt(PENALTY)) / 10000n;
+        const expectedEarnings = (accrued.earningsInTokens * BigInt(EARNINGS_SHARE)) / 10000n;
+        expect(quote.earlyWithdrawal).to.equal(true);
+        expect(quote.penaltyInTokens).to.equal(expectedPenalty);
+        expect(quote.earningsInTokens).to.equal(expectedEarnings);
+        expect(quote.withdrawalAmount).to.equal(STAKING_AMOUNT - expectedPenalty + expectedEarnings);
+
+        const balanceBefore = await stakingToken.balanceOf(staker1Address);
+        await expect(staking.connect(staker1).withdraw(stakeId))
+          .to.emit(staking, "EarlyWithdrawalPenaltyCharged")
+          .withArgs(staker1Address, stakeId, expectedPenalty, ZERO_ADDRESS);
+        const balanceAfter = await stakingToken.balanceOf(staker1Address);
+
+        const stakeRecord = await staking.getStake(stakeId);
+        expect(balanceAfter - balanceBefore).to.equal(quote.withdrawalAmount);
+        expect(stakeRecord.earlyWithdrawal).to.equal(true);
+        expect(stakeRecord.penaltyInTokens).to.equal(expectedPenalty);
+        expect(stakeRecord.earningsInTokens).to.equal(expectedEarnings);
+      });
+
+      it("should send the penalty to the treasury", async function () {
+        const treasuryAddress = await stranger.getAddress();
+        await stakingManagement.connect(stakingManager).setTreasury(treasuryAddress);
+        await ethers.provider.send("evm_increaseTime", [MINIMUM_LOCK]);
+        await ethers.provider.send("evm_mine");
+
+        const treasuryBalanceBefore = await stakingToken.balanceOf(treasuryAddress);
+        await staking.connect(staker1).withdraw(stakeId);
+        const treasuryBalanceAfter = await stakingToken.balanceOf(treasuryAddress);
+
+        expect(treasuryBalanceAfter - treasuryBalanceBefore).to.equal((STAKING_AMOUNT * BigInt(PENALTY)) / 10000n);
+      });
+
+      it("should keep the penalty in the staking pool without a treasury", async function () {
+        const stakingPoolAddress = await stakingPool.getAddress();
+        await ethers.provider.send("evm_increaseTime", [MINIMUM_LOCK]);
+        await ethers.provider.send("evm_mine");
+
+        const poolBalanceBefore = await stakingToken.balanceOf(stakingPoolAddress);
+        const quote = await staking.quoteWithdrawal(stakeId);
+        await staking.connect(staker1).withdraw(stakeId);
+        const poolBalanceAfter = await stakingToken.balanceOf(stakingPoolAddress);
+
+        expect(poolBalanceBefore - poolBalanceAfter).to.equal(quote.withdrawalAmount);
+      });
+
+      it("should not charge a penalty at maturity", async function () {
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+
+        const quote = await staking.quoteWithdrawal(stakeId);
+        const estimatedEarnings = await staking.estimateStakeEarnings(STAKING_AMOUNT, planId);
+        expect(quote.earlyWithdrawal).to.equal(false);
+        expect(quote.penaltyInTokens).to.equal(0);
+        expect(quote.withdrawalAmount).to.equal(STAKING_AMOUNT + estimatedEarnings.predictedEarningsInTokens);
+      });
+
+      it("should report the payout of an early withdrawal net of the penalty", async function () {
+        await ethers.provider.send("evm_increaseTime", [10 * SECONDS_IN_DAY]);
+        await ethers.provider.send("evm_mine");
+        const quote = await staking.quoteWithdrawal(stakeId);
+        await staking.connect(staker1).withdraw(stakeId);
+
+        const output = path.join(os.tmpdir(), `stakes-report-${Date.now()}.json`);
+        await run("report:stakes", { staking: staking.target, format: "json", output });
+        const lines = JSON.parse(fs.readFileSync(output, "utf8"));
+        fs.unlinkSync(output);
+
+        const line = lines.find((entry: { stakeId: number }) => entry.stakeId === Number(stakeId));
+        expect(quote.penaltyInTokens).to.be.greaterThan(0);
+        expect(line.earlyWithdrawal).to.equal(true);
+        expect(line.payoutAtMaturity).to.equal(formatUnits(quote.withdrawalAmount, 18));
+      });
+
+      it("should keep the rules in force at stake creation", async function () {
+        await stakingManagement.connect(stakingManager).setEarlyWithdrawalRules(planId, {
+          isEnabled: true,
+          penalty: 50_00,
+          earningsShare: 0,
+          minimumLock: ONE_MONTH_IN_SECONDS,
+        });
+        await ethers.provider.send("evm_increaseTime", [MINIMUM_LOCK]);
+        await ethers.provider.send("evm_mine");
+
+        const rules = await staking.getStakeEarlyWithdrawalRules(stakeId);
+        const quote = await staking.quoteWithdrawal(stakeId);
+        expect(rules.penalty).to.equal(PENALTY);
+        expect(rules.minimumLock).to.equal(MINIMUM_LOCK);
+        expect(quote.penaltyInTokens).to.equal((STAKING_AMOUNT * BigInt(PENALTY)) / 10000n);
+      });
+
+      it("should not quote a withdrawn stake", async function () {
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        await staking.connect(staker1).withdraw(stakeId);
+        await expect(staking.quoteWithdrawal(stakeId)).to.be.revertedWithCustomError(staking, "StakeAlreadyWithdrawn");
+      });
+    });
+
+    describe("staking pool reservation", function () {
+      const APY = 12_00;
+      const SECONDS_IN_DAY = 24 * 60 * 60;
+      const ONE_MONTH_IN_SECONDS = 2629746;
+      const STAKING_AMOUNT = ethers.parseEther('100');
+
+      let planId: BigNumberish;
+
+      beforeEach(async function () {
+        const staker1Address = await staker1.getAddress();
+        await stakingToken.connect(deployer).transfer(staker1Address, STAKING_AMOUNT * 3n);
+        await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT * 3n);
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(1, STAKING_AMOUNT);
+      });
+
+      it("should record the reserved earnings in the stake", async function () {
+        const estimatedEarnings = await staking.estimateStakeEarnings(STAKING_AMOUNT, planId);
+        const stakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+        const stakeRecord = await staking.getStake(stakeId);
+        expect(stakeRecord.reservedEarnings).to.equal(estimatedEarnings.predictedEarningsInTokens);
+      });
+
+      it("should release the whole reservation on an early withdrawal without earnings", async function () {
+        const stakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+        await stakingManagement.connect(stakingManager).enableWithdraw();
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS / 2]);
+        await ethers.provider.send("evm_mine");
+
+        await staking.connect(staker1).withdraw(stakeId);
+        expect(await staking.getStakingPoolSize()).to.equal(0);
+      });
+
+      it("should release the whole reservation on an early withdrawal with penalty and partial earnings", async function () {
+        await stakingManagement.connect(stakingManager).setEarlyWithdrawalRules(planId, {
+          isEnabled: true,
+          penalty: 10_00,
+          earningsShare: 50_00,
+          minimumLock: 0,
+        });
+        const stakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+        const otherStakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+        await ethers.provider.send("evm_increaseTime", [10 * SECONDS_IN_DAY]);
+        await ethers.provider.send("evm_mine");
+
+        await staking.connect(staker1).withdraw(stakeId);
+        const otherStake = await staking.getStake(otherStakeId);
+        expect(await staking.getStakingPoolSize()).to.equal(otherStake.amount + otherStake.reservedEarnings);
+      });
+
+      it("should accept new stakes after early withdrawals freed the reservation", async function () {
+        const stakingPoolAddress = await stakingPool.getAddress();
+        const deployerAddress = await deployer.getAddress();
+        const estimatedEarnings = await staking.estimateStakeEarnings(STAKING_AMOUNT, planId);
+        // leave exactly one reservation worth of earnings in the pool
+        const poolBalance = await stakingToken.balanceOf(stakingPoolAddress);
+        await stakingToken.connect(stakingPool).transfer(deployerAddress, poolBalance - estimatedEarnings.predictedEarningsInTokens);
+        await stakingManagement.connect(stakingManager).enableWithdraw();
+
+        const stakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).withdraw(stakeId);
+
+        await expect(staking.connect(staker1).stake(STAKING_AMOUNT, planId)).to.not.be.reverted;
+      });
+
+      it("should return the pool size to zero after all stakes of odd amounts matured", async function () {
+        const interestModels = [0, 1, 2, 3, 4];
+        const amounts = [1n, 7n, 999_999_999_999n, ethers.parseEther('33.333333333333333333'), STAKING_AMOUNT - 1n];
+        const stakeIds: BigNumberish[] = [];
+
+        for (let i = 0; i < amounts.length; i++) {
+          await stakingManagement.connect(stakingManager).setStakingPlanInterestModel(planId, interestModels[i]);
+          stakeIds.push(await staking.connect(staker1).stake.staticCall(amounts[i], planId));
+          await staking.connect(staker1).stake(amounts[i], planId);
+        }
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+
+        for (const stakeId of stakeIds) {
+          await staking.connect(staker1).withdraw(stakeId);
+        }
+        expect(await staking.getStakingPoolSize()).to.equal(0);
+      });
+    });
+
+    describe("restake and auto-renewal", function () {
+      const ONE_MONTH_APY = 10_50;
+      const THREE_MONTHS_APY = 12_50;
+      const ONE_MONTH_IN_SECONDS = 2629746;
+      const THREE_MONTHS_IN_SECONDS = 7889238;
+      const STAKING_AMOUNT = ethers.parseEther('100');
+      const QUARTER_STAKING_AMOUNT = ethers.parseEther('25');
+
+      let oneMonthStakingPlanId: BigNumberish;
+      let threeMonthsStakingPlanId: BigNumberish;
+      let stakeId: BigNumberish;
+
+      beforeEach(async function () {
+        const staker1Address = await staker1.getAddress();
+        await stakingToken.connect(deployer).transfer(staker1Address, STAKING_AMOUNT);
+        await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT);
+        oneMonthStakingPlanId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        threeMonthsStakingPlanId = await stakingManagement.addStakingPlan.staticCall(THREE_MONTHS_IN_SECONDS, THREE_MONTHS_APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(THREE_MONTHS_IN_SECONDS, THREE_MONTHS_APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(QUARTER_STAKING_AMOUNT, STAKING_AMOUNT);
+        stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+      });
+
+      const mature = async () => {
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+      };
+
+      it("should roll the principal into a new stake and pay out the earnings", async function () {
+        const staker1Address = await staker1.getAddress();
+        await mature();
+        const { earningsInTokens } = await staking.calculateStakeEarnings(stakeId);
+        const balanceBefore = await stakingToken.balanceOf(staker1Address);
+
+        const newStakeId = await staking.connect(staker1).restake.staticCall(stakeId, threeMonthsStakingPlanId, false);
+        await expect(staking.connect(staker1).restake(stakeId, threeMonthsStakingPlanId, false))
+          .to.emit(staking, "StakeRestaked")
+          .withArgs(staker1Address, stakeId, newStakeId, false);
+
+        const oldStake = await staking.getStake(stakeId);
+        const newStake = await staking.getStake(newStakeId);
+        expect(oldStake.withdrawn).to.equal(true);
+        expect(oldStake.earningsInTokens).to.equal(earningsInTokens);
+        expect(newStake.staker).to.equal(staker1Address);
+        expect(newStake.amount).to.equal(QUARTER_STAKING_AMOUNT);
+        expect(newStake.stakingPlanId).to.equal(threeMonthsStakingPlanId);
+        expect(await stakingToken.balanceOf(staker1Address) - balanceBefore).to.equal(earningsInTokens);
+      });
+
+      it("should roll the principal and earnings into a new stake when compounding", async function () {
+        const staker1Address = await staker1.getAddress();
+        await mature();
+        const { earningsInTokens } = await staking.calculateStakeEarnings(stakeId);
+        const balanceBefore = await stakingToken.balanceOf(staker1Address);
+
+        const newStakeId = await staking.connect(staker1).restake.staticCall(stakeId, threeMonthsStakingPlanId, true);
+        await staking.connect(staker1).restake(stakeId, threeMonthsStakingPlanId, true);
+
+        const newStake = await staking.getStake(newStakeId);
+        const estimatedEarnings = await staking.estimateStakeEarnings(newStake.amount, threeMonthsStakingPlanId);
+        expect(newStake.amount).to.equal(QUARTER_STAKING_AMOUNT + earningsInTokens);
+        expect(await stakingToken.balanceOf(staker1Address)).to.equal(balanceBefore);
+        expect(await staking.getStakingPoolSize()).to.equal(newStake.amount + estimatedEarnings.predictedEarningsInTokens);
+      });
+
+      it("should not restake before maturity", async function () {
+        await expect(staking.connect(staker1).restake(stakeId, threeMonthsStakingPlanId, false))
+          .to.be.revertedWithCustomError(staking, "StakeNotYetEnded")
+          .withArgs(stakeId);
+      });
+
+      it("should not restake a stake of someone else or a withdrawn stake", async function () {
+        await mature();
+        await expect(staking.connect(stranger).restake(stakeId, threeMonthsStakingPlanId, false))
+          .to.be.revertedWithCustomError(staking, "CallerIsNotStakeOwner");
+        await staking.connect(staker1).withdraw(stakeId);
+        await expect(staking.connect(staker1).restake(stakeId, threeMonthsStakingPlanId, false))
+          .to.be.revertedWithCustomError(staking, "StakeAlreadyWithdrawn");
+      });
+
+      it("should check the staking limits of the new principal", async function () {
+        await stakingManagement.connect(stakingManager).setStakingLimits(QUARTER_STAKING_AMOUNT, QUARTER_STAKING_AMOUNT);
+        await mature();
+        await expect(staking.connect(staker1).restake(stakeId, threeMonthsStakingPlanId, true))
+          .to.be.revertedWithCustomError(staking, "AmountIsGreaterThanMaximumStake");
+      });
+
+      it("should let a keeper renew a stake that opted in", async function () {
+        const staker1Address = await staker1.getAddress();
+        await expect(staking.connect(staker1).setAutoRenewal(stakeId, true, true))
+          .to.emit(staking, "AutoRenewalUpdated")
+          .withArgs(stakeId, true, true);
+        await mature();
+
+        const newStakeId = await staking.connect(stranger).executeAutoRenewal.staticCall(stakeId);
+        await expect(staking.connect(stranger).executeAutoRenewal(stakeId))
+          .to.emit(staking, "StakeRestaked")
+          .withArgs(staker1Address, stakeId, newStakeId, true);
+
+        const newStake = await staking.getStake(newStakeId);
+        const autoRenewal = await staking.getAutoRenewal(newStakeId);
+        expect(newStake.staker).to.equal(staker1Address);
+        expect(newStake.stakingPlanId).to.equal(oneMonthStakingPlanId);
+        expect(autoRenewal.enabled).to.equal(true);
+        expect(autoRenewal.compound).to.equal(true);
+      });
+
+      it("should not auto-renew a stake that did not opt in or opted out", async function () {
+        await mature();
+        await expect(staking.connect(stranger).executeAutoRenewal(stakeId))
+          .to.be.revertedWithCustomError(staking, "AutoRenewalNotEnabled")
+          .withArgs(stakeId);
+        await staking.connect(staker1).setAutoRenewal(stakeId, true, false);
+        await staking.connect(staker1).setAutoRenewal(stakeId, false, false);
+        await expect(staking.connect(stranger).executeAutoRenewal(stakeId))
+          .to.be.revertedWithCustomError(staking, "AutoRenewalNotEnabled");
+      });
+
+      it("should not auto-renew into a deactivated plan", async function () {
+        await staking.connect(staker1).setAutoRenewal(stakeId, true, false);
+        await stakingManagement.connect(stakingManager).deactivateStakingPlan(oneMonthStakingPlanId);
+        await mature();
+        await expect(staking.connect(stranger).executeAutoRenewal(stakeId))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanIsNotActive");
+      });
+
+      it("should allow only the stake owner to change auto-renewal", async function () {
+        await expect(staking.connect(stranger).setAutoRenewal(stakeId, true, false))
+          .to.be.revertedWithCustomError(staking, "CallerIsNotStakeOwner");
+      });
+    });
+
+    describe("stake positions", function () {
+      const APY = 10_50;
+      const ONE_MONTH_IN_SECONDS = 2629746;
+      const STAKING_AMOUNT = ethers.parseEther('100');
+      const QUARTER_STAKING_AMOUNT = ethers.parseEther('25');
+
+      let planId: BigNumberish;
+      let stakeId: BigNumberish;
+      let otherStakeId: BigNumberish;
+
+      beforeEach(async function () {
+        const staker1Address = await staker1.getAddress();
+        await stakingToken.connect(deployer).transfer(staker1Address, STAKING_AMOUNT);
+        await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT);
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(QUARTER_STAKING_AMOUNT, QUARTER_STAKING_AMOUNT);
+        stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId);
+        otherStakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId);
+      });
+
+      it("should mint a position token to the staker", async function () {
+        const staker1Address = await staker1.getAddress();
+        expect(await staking.name()).to.equal("IQT Stake Position");
+        expect(await staking.symbol()).to.equal("IQT-STAKE");
+        expect(await staking.ownerOf(stakeId)).to.equal(staker1Address);
+        expect(await staking.balanceOf(staker1Address)).to.equal(2);
+      });
+
+      it("should move the stake to the new holder on transfer", async function () {
+        const staker1Address = await staker1.getAddress();
+        const staker2Address = await staker2.getAddress();
+        await staking.connect(staker1).transferFrom(staker1Address, staker2Address, stakeId);
+
+        expect(await staking.ownerOf(stakeId)).to.equal(staker2Address);
+        expect((await staking.getStake(stakeId)).staker).to.equal(staker2Address);
+        expect(await staking.getStakeIds(staker1Address)).to.deep.equal([otherStakeId]);
+        expect(await staking.getStakeIds(staker2Address)).to.deep.equal([stakeId]);
+        expect(await staking.getStakesCount(staker2Address)).to.equal(1);
+        const stakes = await staking.getStakes(staker2Address, 0, 10);
+        expect(stakes.length).to.equal(1);
+        expect(stakes[0].staker).to.equal(staker2Address);
+        expect(await staking.getStakedAmount(staker1Address)).to.equal(QUARTER_STAKING_AMOUNT);
+        expect(await staking.getStakedAmount(staker2Address)).to.equal(QUARTER_STAKING_AMOUNT);
+      });
+
+      it("should pay the current holder on withdraw", async function () {
+        const staker1Address = await staker1.getAddress();
+        const staker2Address = await staker2.getAddress();
+        await staking.connect(staker1).transferFrom(staker1Address, staker2Address, stakeId);
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+
+        await expect(staking.connect(staker1).withdraw(stakeId))
+          .to.be.revertedWithCustomError(staking, "CallerIsNotStakeOwner");
+
+        const quote = await staking.quoteWithdrawal(stakeId);
+        const balanceBefore = await stakingToken.balanceOf(staker2Address);
+        await expect(staking.connect(staker2).withdraw(stakeId))
+          .to.emit(staking, "StakeWithdrawn")
+          .withArgs(staker2Address, stakeId);
+        expect(await stakingToken.balanceOf(staker2Address) - balanceBefore).to.equal(quote.withdrawalAmount);
+      });
+
+      it("should reset auto-renewal on transfer", async function () {
+        const staker1Address = await staker1.getAddress();
+        const staker2Address = await staker2.getAddress();
+        await staking.connect(staker1).setAutoRenewal(stakeId, true, true);
+        await staking.connect(staker1).transferFrom(staker1Address, staker2Address, stakeId);
+        expect((await staking.getAutoRenewal(stakeId)).enabled).to.equal(false);
+      });
+
+      it("should expose the stake terms in the token metadata", async function () {
+        const stakeRecord = await staking.getStake(stakeId);
+        const tokenURI = await staking.tokenURI(stakeId);
+        const prefix = "data:application/json;base64,";
+        expect(tokenURI.startsWith(prefix)).to.equal(true);
+
+        const metadata = JSON.parse(Buffer.from(tokenURI.slice(prefix.length), "base64").toString());
+        const attributes = Object.fromEntries(
+          metadata.attributes.map((attribute: { trait_type: string, value: unknown }) => [attribute.trait_type, attribute.value])
+        );
+        expect(metadata.name).to.equal(`IQT Stake #${stakeId}`);
+        expect(attributes.Plan).to.equal(Number(planId));
+        expect(attributes.Amount).to.equal(QUARTER_STAKING_AMOUNT.toString());
+        expect(attributes.APY).to.equal(APY);
+        expect(attributes.Maturity).to.equal(Number(stakeRecord.endTimestamp));
+        expect(attributes.Withdrawn).to.equal("no");
+      });
+
+      it("should revert metadata of a non existing stake", async function () {
+        await expect(staking.tokenURI(999)).to.be.revertedWith("ERC721: invalid token ID");
+      });
+    });
+
+    describe("pause and emergency mode", function () {
+      const APY = 10_50;
+      const ONE_MONTH_IN_SECONDS = 2629746;
       const STAKING_AMOUNT = ethers.parseEther('100');
       const QUARTER_STAKING_AMOUNT = ethers.parseEther('25');
-      const NON_EXISTING_PLAN_ID = 999;
-      const NON_EXISTING_STAKE_ID = 999;
 
-      let oneMonthStakingPlanId: BigNumberish;
+      let planId: BigNumberish;
+      let stakeId: BigNumberish;
 
       beforeEach(async function () {
         const staker1Address = await staker1.getAddress();
-        const staker2Address = await staker2.getAddress();
-        const staker3Address = await staker3.getAddress();
-        const staker4Address = await staker4.getAddress();
         await stakingToken.connect(deployer).transfer(staker1Address, STAKING_AMOUNT);
         await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT);
-        await stakingToken.connect(deployer).transfer(staker2Address, STAKING_AMOUNT);
-        await stakingToken.connect(staker2).approve(staking.target, STAKING_AMOUNT);
-        await stakingToken.connect(deployer).transfer(staker3Address, STAKING_AMOUNT);
-        await stakingToken.connect(staker3).approve(staking.target, STAKING_AMOUNT);
-        await stakingToken.connect(deployer).transfer(staker4Address, STAKING_AMOUNT);
-        await stakingToken.connect(staker4).approve(staking.target, STAKING_AMOUNT);
-        oneMonthStakingPlanId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
-        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, APY);
         await stakingManagement.connect(stakingManager).setStakingLimits(QUARTER_STAKING_AMOUNT, QUARTER_STAKING_AMOUNT);
+        stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId);
       });
 
-      it("should withdraw", async function () {
-        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        const estimatedStakeEarnings = await staking.estimateStakeEarnings(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+      it("should not stake while staking is paused but still withdraw", async function () {
+        await stakingManagement.connect(deployer).pauseStaking();
+        await expect(staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingIsPaused");
+
         await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
         await ethers.provider.send("evm_mine");
         await expect(staking.connect(staker1).withdraw(stakeId)).to.not.be.reverted;
-        const expectedStakeEarnings = calculateExpectedEarnings({
-          stakingAmount: QUARTER_STAKING_AMOUNT,
-          stakingPeriod: BigInt(ONE_MONTH_IN_SECONDS),
-          apy: BigInt(ONE_MONTH_APY),
-        });
-        const stakeRecord = await staking.getStake(stakeId);
-        expect(stakeRecord.earlyWithdrawal).to.equal(false);
-        expect(stakeRecord.withdrawn).to.equal(true);
-        expect(expectedStakeEarnings.expectedEarningsInTokens).to.eq(estimatedStakeEarnings.predictedEarningsInTokens);
-        expect(expectedStakeEarnings.expectedEarningsPercentage).to.eq(estimatedStakeEarnings.predictedEarningsPercentage);
-        expect(stakeRecord.earningsInTokens).to.equal(expectedStakeEarnings.expectedEarningsInTokens);
-        expect(stakeRecord.earningsPercentage).to.equal(expectedStakeEarnings.expectedEarningsPercentage);
-        expect(stakeRecord.startTimestamp).to.equal(stakeRecord.endTimestamp - BigInt(ONE_MONTH_IN_SECONDS));
+      });
+
+      it("should not withdraw or restake while withdrawals are paused but still stake", async function () {
+        await stakingManagement.connect(deployer).pauseWithdrawals();
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+
+        await expect(staking.connect(staker1).withdraw(stakeId))
+          .to.be.revertedWithCustomError(stakingManagement, "WithdrawalsArePaused");
+        await expect(staking.connect(staker1).restake(stakeId, planId, false))
+          .to.be.revertedWithCustomError(stakingManagement, "WithdrawalsArePaused");
+        await expect(staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId)).to.not.be.reverted;
 
+        await stakingManagement.connect(deployer).unpauseWithdrawals();
+        await expect(staking.connect(staker1).withdraw(stakeId)).to.not.be.reverted;
       });
 
-      it("should emit an event when withdrawing", async function () {
+      it("should recover the principal without earnings before maturity in the emergency mode", async function () {
         const staker1Address = await staker1.getAddress();
-        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        await stakingManagement.connect(deployer).pauseWithdrawals();
+        await stakingManagement.connect(deployer).enableEmergencyMode();
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS / 2]);
+        await ethers.provider.send("evm_mine");
+
+        const balanceBefore = await stakingToken.balanceOf(staker1Address);
+        await expect(staking.connect(staker1).emergencyWithdraw(stakeId))
+          .to.emit(staking, "StakeEmergencyWithdrawn")
+          .withArgs(staker1Address, stakeId, QUARTER_STAKING_AMOUNT);
+
+        const stakeRecord = await staking.getStake(stakeId);
+        expect(await stakingToken.balanceOf(staker1Address) - balanceBefore).to.equal(QUARTER_STAKING_AMOUNT);
+        expect(stakeRecord.withdrawn).to.equal(true);
+        expect(stakeRecord.earlyWithdrawal).to.equal(true);
+        expect(stakeRecord.earningsInTokens).to.equal(0);
+        expect(await staking.getStakingPoolSize()).to.equal(0);
+        expect(await staking.getStakesAmountPerPlan(planId)).to.equal(0);
+        await expect(staking.connect(staker1).emergencyWithdraw(stakeId))
+          .to.be.revertedWithCustomError(staking, "StakeAlreadyWithdrawn");
+      });
+
+      it("should stop regular stakes and withdrawals in the emergency mode", async function () {
+        await stakingManagement.connect(deployer).enableEmergencyMode();
         await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
         await ethers.provider.send("evm_mine");
+
+        await expect(staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId))
+          .to.be.revertedWithCustomError(stakingManagement, "EmergencyModeIsActive");
         await expect(staking.connect(staker1).withdraw(stakeId))
-          .to.emit(staking, "StakeWithdrawn")
-          .withArgs(staker1Address, stakeId);
+          .to.be.revertedWithCustomError(stakingManagement, "EmergencyModeIsActive");
       });
 
-      it("should allow to withdraw only initial stake if early withdrawal", async function () {
-        let stakeRecord;
+      it("should not allow an emergency withdrawal outside the emergency mode", async function () {
+        await expect(staking.connect(staker1).emergencyWithdraw(stakeId))
+          .to.be.revertedWithCustomError(stakingManagement, "EmergencyModeIsNotActive");
+      });
 
-        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        const currentBlock = await ethers.provider.getBlock('latest');
-        const stakeTimestamp = currentBlock!.timestamp;
-        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        stakeRecord = await staking.getStake(stakeId);
-        const initialStakeEndTimestamp = stakeRecord.endTimestamp;
-        await stakingManagement.connect(deployer).enableWithdraw();
-        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS / 2]);
+      it("should allow an emergency withdrawal only to the stake owner", async function () {
+        await stakingManagement.connect(deployer).enableEmergencyMode();
+        await expect(staking.connect(stranger).emergencyWithdraw(stakeId))
+          .to.be.revertedWithCustomError(staking, "CallerIsNotStakeOwner");
+      });
+    });
+
+    describe("capacity caps", function () {
+      const APY = 10_50;
+      const ONE_MONTH_IN_SECONDS = 2629746;
+      const STAKING_AMOUNT = ethers.parseEther('100');
+      const QUARTER_STAKING_AMOUNT = ethers.parseEther('25');
+
+      let planId: BigNumberish;
+      let otherPlanId: BigNumberish;
+
+      beforeEach(async function () {
+        for (const staker of [staker1, staker2]) {
+          await stakingToken.connect(deployer).transfer(await staker.getAddress(), STAKING_AMOUNT);
+          await stakingToken.connect(staker).approve(staking.target, STAKING_AMOUNT);
+        }
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, APY);
+        otherPlanId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(QUARTER_STAKING_AMOUNT, QUARTER_STAKING_AMOUNT);
+      });
+
+      it("should enforce the plan cap and report the remaining capacity", async function () {
+        await stakingManagement.connect(stakingManager).setPlanCap(planId, QUARTER_STAKING_AMOUNT * 2n);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId);
+        expect(await stakingManagement.getRemainingCapacity(planId)).to.equal(QUARTER_STAKING_AMOUNT);
+        await staking.connect(staker2).stake(QUARTER_STAKING_AMOUNT, planId);
+        expect(await stakingManagement.getRemainingCapacity(planId)).to.equal(0);
+
+        await expect(staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId))
+          .to.be.revertedWithCustomError(stakingManagement, "PlanCapExceeded")
+          .withArgs(planId, QUARTER_STAKING_AMOUNT * 2n);
+        await expect(staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, otherPlanId)).to.not.be.reverted;
+      });
+
+      it("should free plan capacity on withdrawal", async function () {
+        await stakingManagement.connect(stakingManager).setPlanCap(planId, QUARTER_STAKING_AMOUNT);
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId);
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
         await ethers.provider.send("evm_mine");
-        const balanceBeforeWithdrawal = await stakingToken.balanceOf(await staker1.getAddress());
-        await expect(staking.connect(staker1).withdraw(stakeId)).to.not.be.reverted;
-        const balanceAfterWithdrawal = await stakingToken.balanceOf(await staker1.getAddress());
-        stakeRecord = await staking.getStake(stakeId);
-        expect(balanceAfterWithdrawal).to.equal(balanceBeforeWithdrawal + QUARTER_STAKING_AMOUNT);
-        expect(stakeRecord.earlyWithdrawal).to.equal(true);
-        expect(stakeRecord.earningsInTokens).to.equal(0n);
-        expect(stakeRecord.earningsPercentage).to.equal(0n);
-        expect(stakeRecord.withdrawn).to.equal(true);
-        expect(stakeRecord.endTimestamp).to.be.gt(stakeTimestamp);
-        expect(stakeRecord.endTimestamp).to.be.lt(initialStakeEndTimestamp);
+        await staking.connect(staker1).withdraw(stakeId);
+
+        expect(await staking.getPlanPrincipal(planId)).to.equal(0);
+        expect(await stakingManagement.getRemainingCapacity(planId)).to.equal(QUARTER_STAKING_AMOUNT);
+        await expect(staking.connect(staker2).stake(QUARTER_STAKING_AMOUNT, planId)).to.not.be.reverted;
       });
 
-      it("should decrease the amount of stakes per plan once withdrawn", async function () {
-        let stakesPerPlan;
-        stakesPerPlan = await staking.getStakesAmountPerPlan(oneMonthStakingPlanId);
-        expect(stakesPerPlan).to.equal(0);
-        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        stakesPerPlan = await staking.getStakesAmountPerPlan(oneMonthStakingPlanId);
-        expect(stakesPerPlan).to.equal(1);
+      it("should enforce the global cap across plans", async function () {
+        await stakingManagement.connect(stakingManager).setGlobalCap(QUARTER_STAKING_AMOUNT * 2n);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(staker2).stake(QUARTER_STAKING_AMOUNT, otherPlanId);
+        expect(await staking.getActivePrincipal()).to.equal(QUARTER_STAKING_AMOUNT * 2n);
+        await expect(staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, otherPlanId))
+          .to.be.revertedWithCustomError(stakingManagement, "GlobalCapExceeded");
+      });
+
+      it("should enforce the per-wallet principal cap", async function () {
+        const staker1Address = await staker1.getAddress();
+        await stakingManagement.connect(stakingManager).setWalletLimits(QUARTER_STAKING_AMOUNT * 2n, 0);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, otherPlanId);
+        expect(await staking.getWalletPrincipal(staker1Address)).to.equal(QUARTER_STAKING_AMOUNT * 2n);
+        await expect(staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId))
+          .to.be.revertedWithCustomError(stakingManagement, "WalletCapExceeded")
+          .withArgs(staker1Address, QUARTER_STAKING_AMOUNT * 2n);
+        await expect(staking.connect(staker2).stake(QUARTER_STAKING_AMOUNT, planId)).to.not.be.reverted;
+      });
+
+      it("should enforce the per-wallet stake count limit, also for stakes opened on behalf", async function () {
+        const staker1Address = await staker1.getAddress();
+        await stakingManagement.connect(stakingManager).setWalletLimits(0, 1);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId);
+        expect(await staking.getWalletActiveStakes(staker1Address)).to.equal(1);
+        await expect(staking.connect(staker2).stakeFor(staker1Address, QUARTER_STAKING_AMOUNT, planId))
+          .to.be.revertedWithCustomError(stakingManagement, "WalletStakeLimitExceeded")
+          .withArgs(staker1Address, 1);
+      });
+
+      it("should move the wallet totals with a position transfer", async function () {
+        const staker1Address = await staker1.getAddress();
+        const staker2Address = await staker2.getAddress();
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(staker1).transferFrom(staker1Address, staker2Address, stakeId);
+
+        expect(await staking.getWalletPrincipal(staker1Address)).to.equal(0);
+        expect(await staking.getWalletActiveStakes(staker1Address)).to.equal(0);
+        expect(await staking.getWalletPrincipal(staker2Address)).to.equal(QUARTER_STAKING_AMOUNT);
+        expect(await staking.getWalletActiveStakes(staker2Address)).to.equal(1);
+      });
+    });
+
+    describe("time-windowed plans", function () {
+      const APY = 10_50;
+      const ONE_DAY_IN_SECONDS = 86400;
+      const ONE_MONTH_IN_SECONDS = 2629746;
+      const STAKING_AMOUNT = ethers.parseEther('100');
+
+      let planId: BigNumberish;
+      let now: number;
+
+      beforeEach(async function () {
+        await stakingToken.connect(deployer).transfer(await staker1.getAddress(), STAKING_AMOUNT);
+        await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT);
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(1, STAKING_AMOUNT);
+        now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      });
+
+      it("should accept stakes only while the plan is open", async function () {
+        const startsAt = now + ONE_DAY_IN_SECONDS;
+        const endsAt = startsAt + ONE_DAY_IN_SECONDS;
+        await stakingManagement.connect(stakingManager).setStakingPlanSchedule(planId, startsAt, endsAt, 0);
+
+        await expect(staking.connect(staker1).stake(STAKING_AMOUNT, planId))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanIsNotOpenYet")
+          .withArgs(planId, startsAt);
+
+        await ethers.provider.send("evm_increaseTime", [ONE_DAY_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        await expect(staking.connect(staker1).stake(STAKING_AMOUNT / 2n, planId)).to.not.be.reverted;
+
+        await ethers.provider.send("evm_increaseTime", [ONE_DAY_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        await expect(staking.connect(staker1).stake(STAKING_AMOUNT / 2n, planId))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanIsClosed")
+          .withArgs(planId);
+      });
+
+      it("should end all stakes of a fixed maturity plan at the maturity date", async function () {
+        const maturity = now + ONE_MONTH_IN_SECONDS * 2;
+        await stakingManagement.connect(stakingManager).setStakingPlanSchedule(planId, 0, 0, maturity);
+
+        const firstStakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT / 2n, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT / 2n, planId);
         await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
         await ethers.provider.send("evm_mine");
-        await expect(staking.connect(staker1).withdraw(stakeId)).to.not.be.reverted;
-        stakesPerPlan = await staking.getStakesAmountPerPlan(oneMonthStakingPlanId);
-        expect(stakesPerPlan).to.equal(0);
+
+        const [estimatedEarnings] = await staking.estimateStakeEarnings(STAKING_AMOUNT / 2n, planId);
+        const secondStakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT / 2n, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT / 2n, planId);
+
+        const firstStake = await staking.getStake(firstStakeId);
+        const secondStake = await staking.getStake(secondStakeId);
+        expect(firstStake.endTimestamp).to.equal(maturity);
+        expect(secondStake.endTimestamp).to.equal(maturity);
+        expect(secondStake.duration).to.equal(maturity - Number(secondStake.startTimestamp));
+        expect(secondStake.duration).to.be.lessThan(firstStake.duration);
+        expect(estimatedEarnings).to.be.greaterThan(0);
+
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        expect(await stakingManagement.getStakingPlanStatus(planId)).to.equal(2);
+        await expect(staking.connect(staker1).withdraw(secondStakeId)).to.not.be.reverted;
       });
 
-      it("should revert when stake does not exist", async function () {
-        await expect(staking.connect(staker1).withdraw(NON_EXISTING_STAKE_ID)).to.be.revertedWithCustomError(
-          staking,
-          "StakeDoesNotExist"
-        );
+      it("should estimate no earnings once the fixed maturity has passed", async function () {
+        const maturity = now + ONE_MONTH_IN_SECONDS;
+        await stakingManagement.connect(stakingManager).setStakingPlanSchedule(planId, 0, 0, maturity);
+        await stakingManagement.connect(stakingManager).setStakingPlanInterestModel(planId, 3); // CompoundAtMaturity
+
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS + 1]);
+        await ethers.provider.send("evm_mine");
+
+        const [earningsInTokens, earningsPercentage] = await staking.estimateStakeEarnings(STAKING_AMOUNT, planId);
+        expect(earningsInTokens).to.equal(0);
+        expect(earningsPercentage).to.equal(0);
       });
 
-      it("should revert when stake is attempted to be withdrawn by stranger", async function () {
+      it("should reject stakes once the fixed maturity has passed", async function () {
+        const maturity = now + ONE_MONTH_IN_SECONDS;
+        await stakingManagement.connect(stakingManager).setStakingPlanSchedule(planId, 0, 0, maturity);
+
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS + 1]);
+        await ethers.provider.send("evm_mine");
+
+        await expect(staking.connect(staker1).stake(STAKING_AMOUNT, planId))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanIsClosed")
+          .withArgs(planId);
+      });
+    });
+
+    describe("aggregates", function () {
+      const APY = 10_50;
+      const ONE_MONTH_IN_SECONDS = 2629746;
+      const STAKING_AMOUNT = ethers.parseEther('100');
+      const QUARTER_STAKING_AMOUNT = ethers.parseEther('25');
+
+      let planId: BigNumberish;
+      let otherPlanId: BigNumberish;
+
+      beforeEach(async function () {
+        for (const staker of [staker1, staker2]) {
+          await stakingToken.connect(deployer).transfer(await staker.getAddress(), STAKING_AMOUNT);
+          await stakingToken.connect(staker).approve(staking.target, STAKING_AMOUNT);
+        }
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, APY);
+        otherPlanId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS * 3, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS * 3, APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(QUARTER_STAKING_AMOUNT, QUARTER_STAKING_AMOUNT);
+      });
+
+      it("should split active and historical totals on withdrawal", async function () {
         const staker1Address = await staker1.getAddress();
-        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, otherPlanId);
+        await staking.connect(staker2).stake(QUARTER_STAKING_AMOUNT, planId);
+
+        expect(await staking.getActiveStakes()).to.equal(3);
+        expect(await staking.getActivePrincipal()).to.equal(QUARTER_STAKING_AMOUNT * 3n);
+        expect(await staking.getPlanPrincipal(planId)).to.equal(QUARTER_STAKING_AMOUNT * 2n);
+
         await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
         await ethers.provider.send("evm_mine");
-        await expect(staking.connect(stranger).withdraw(stakeId)).to.be.revertedWithCustomError(
-          staking,
-          "CallerIsNotStakeOwner"
-        );
+        await staking.connect(staker1).withdraw(stakeId);
+        const { earningsInTokens } = await staking.getStake(stakeId);
+
+        expect(earningsInTokens).to.be.greaterThan(0);
+        expect(await staking.getActiveStakes()).to.equal(2);
+        expect(await staking.getActivePrincipal()).to.equal(QUARTER_STAKING_AMOUNT * 2n);
+        expect(await staking.getPlanPrincipal(planId)).to.equal(QUARTER_STAKING_AMOUNT);
+        expect(await staking.getPlanPrincipal(otherPlanId)).to.equal(QUARTER_STAKING_AMOUNT);
+        expect(await staking.getWithdrawnPrincipal()).to.equal(QUARTER_STAKING_AMOUNT);
+        expect(await staking.getPaidEarnings()).to.equal(earningsInTokens);
+        expect(await staking.getTotalStaked()).to.equal(QUARTER_STAKING_AMOUNT * 3n);
+        expect(await staking.getWalletPrincipal(staker1Address)).to.equal(QUARTER_STAKING_AMOUNT);
+        expect(await staking.getStakedAmount(staker1Address)).to.equal(QUARTER_STAKING_AMOUNT * 2n);
       });
 
-      it("should revert when stake is already withdrawn", async function () {
-        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+      it("should move the historical wallet total with a withdrawn position", async function () {
+        const staker1Address = await staker1.getAddress();
+        const staker2Address = await staker2.getAddress();
+        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, planId);
         await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
         await ethers.provider.send("evm_mine");
         await staking.connect(staker1).withdraw(stakeId);
-        await expect(staking.connect(staker1).withdraw(stakeId)).to.be.revertedWithCustomError(
-          staking,
-          "StakeAlreadyWithdrawn"
-        );
+
+        await staking.connect(staker1).transferFrom(staker1Address, staker2Address, stakeId);
+
+        expect(await staking.getStakedAmount(staker1Address)).to.equal(0);
+        expect(await staking.getStakedAmount(staker2Address)).to.equal(QUARTER_STAKING_AMOUNT);
+        expect(await staking.getWalletPrincipal(staker2Address)).to.equal(0);
+        expect(await staking.getWithdrawnPrincipal()).to.equal(QUARTER_STAKING_AMOUNT);
       });
+    });
 
-      it("should revert when stake is not matured and early withdrawal disabled", async function () {
-        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        await expect(staking.connect(staker1).withdraw(stakeId)).to.be.revertedWithCustomError(
-          staking,
-          "EarlyWithdrawalNotAllowed"
-        );
+    describe("filtered stake queries", function () {
+      const APY = 10_50;
+      const ONE_MONTH_IN_SECONDS = 2629746;
+      const STAKING_AMOUNT = ethers.parseEther('100');
+      const QUARTER_STAKING_AMOUNT = ethers.parseEther('25');
+      const ACTIVE = 0;
+      const MATURED = 1;
+      const WITHDRAWN = 2;
+      const EARLY_WITHDRAWN = 3;
+
+      let planId: BigNumberish;
+      let otherPlanId: BigNumberish;
+      let staker1Address: string;
+      let stakeIds: bigint[];
+
+      beforeEach(async function () {
+        staker1Address = await staker1.getAddress();
+        await stakingToken.connect(deployer).transfer(staker1Address, STAKING_AMOUNT);
+        await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT);
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS, APY);
+        otherPlanId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS * 3, APY);
+        await stakingManagement.connect(stakingManager).addStakingPlan(ONE_MONTH_IN_SECONDS * 3, APY);
+        await stakingManagement.connect(stakingManager).setStakingLimits(QUARTER_STAKING_AMOUNT, QUARTER_STAKING_AMOUNT);
+        await stakingManagement.connect(stakingManager).setEarlyWithdrawalRules(otherPlanId, {
+          isEnabled: true,
+          penalty: 0,
+          earningsShare: 0,
+          minimumLock: 0,
+        });
+
+        // three one month stakes and one three months stake
+        stakeIds = [];
+        for (const plan of [planId, planId, planId, otherPlanId]) {
+          stakeIds.push(await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, plan));
+          await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, plan);
+        }
       });
 
-      it("should revert when staking pool is empty", async function () {
-        const stakingPoolAddress = await stakingPool.getAddress();
-        const strangerAddress = await stranger.getAddress();
-        const stakingPoolBalance = await stakingToken.balanceOf(stakingPoolAddress);
-        const stakeId = await staking.connect(staker1).stake.staticCall(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
-        await staking.connect(staker1).stake(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+      it("should filter the staker stakes by status", async function () {
+        let [ids, stakes, total] = await staking.getStakesByStatus(staker1Address, ACTIVE, 0, 10);
+        expect(total).to.equal(4);
+        expect(ids).to.deep.equal(stakeIds);
+        expect(stakes[0].stakingPlanId).to.equal(planId);
+
         await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
         await ethers.provider.send("evm_mine");
-        await stakingToken.connect(stakingPool).transfer(strangerAddress, stakingPoolBalance);
-        await expect(staking.connect(staker1).withdraw(stakeId)).to.be.revertedWith(
-          "ERC20: transfer amount exceeds balance"
-        );
+        await staking.connect(staker1).withdraw(stakeIds[0]);
+        await staking.connect(staker1).withdraw(stakeIds[3]);
+
+        [ids, , total] = await staking.getStakesByStatus(staker1Address, ACTIVE, 0, 10);
+        expect(total).to.equal(0);
+        expect(ids).to.deep.equal([]);
+        [ids, , total] = await staking.getStakesByStatus(staker1Address, MATURED, 0, 10);
+        expect(total).to.equal(2);
+        expect(ids).to.deep.equal([stakeIds[1], stakeIds[2]]);
+        [ids, stakes, total] = await staking.getStakesByStatus(staker1Address, WITHDRAWN, 0, 10);
+        expect(total).to.equal(1);
+        expect(ids).to.deep.equal([stakeIds[0]]);
+        expect(stakes[0].withdrawn).to.equal(true);
+        [ids, , total] = await staking.getStakesByStatus(staker1Address, EARLY_WITHDRAWN, 0, 10);
+        expect(total).to.equal(1);
+        expect(ids).to.deep.equal([stakeIds[3]]);
+        expect(await staking.getStakeStatus(stakeIds[3])).to.equal(EARLY_WITHDRAWN);
+      });
+
+      it("should paginate over the matching stakes only", async function () {
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+
+        let [ids, stakes, total] = await staking.getStakesByStatus(staker1Address, MATURED, 1, 1);
+        expect(total).to.equal(3);
+        expect(ids).to.deep.equal([stakeIds[1]]);
+        expect(stakes).to.have.lengthOf(1);
+
+        [ids, , total] = await staking.getStakesByStatus(staker1Address, MATURED, 2, 10);
+        expect(total).to.equal(3);
+        expect(ids).to.deep.equal([stakeIds[2]]);
+
+        [ids, , total] = await staking.getStakesByStatus(staker1Address, MATURED, 3, 10);
+        expect(total).to.equal(3);
+        expect(ids).to.deep.equal([]);
+      });
+
+      it("should filter the plan stakes by status, withdrawn stakes included", async function () {
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        await staking.connect(staker1).withdraw(stakeIds[1]);
+
+        let [ids, , total] = await staking.getPlanStakesByStatus(planId, MATURED, 0, 10);
+        expect(total).to.equal(2);
+        expect([...ids]).to.have.members([stakeIds[0], stakeIds[2]]);
+        [ids, , total] = await staking.getPlanStakesByStatus(planId, WITHDRAWN, 0, 10);
+        expect(total).to.equal(1);
+        expect(ids).to.deep.equal([stakeIds[1]]);
+        [ids, , total] = await staking.getPlanStakesByStatus(otherPlanId, ACTIVE, 0, 10);
+        expect(total).to.equal(1);
+        expect(ids).to.deep.equal([stakeIds[3]]);
+      });
+
+      it("should keep the history of a removed plan", async function () {
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+        for (const stakeId of stakeIds.slice(0, 3)) {
+          await staking.connect(staker1).withdraw(stakeId);
+        }
+        await stakingManagement.connect(stakingManager).removeStakingPlan(planId);
+
+        const [ids, , total] = await staking.getPlanStakesByStatus(planId, WITHDRAWN, 0, 10);
+        expect(total).to.equal(3);
+        expect(ids).to.deep.equal(stakeIds.slice(0, 3));
+      });
+
+      it("should revert if the plan does not exist", async function () {
+        await expect(staking.getPlanStakesByStatus(999, ACTIVE, 0, 10))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanDoesNotExist");
       });
     });
   });
@@ -537,6 +1799,7 @@ describe("Staking Contract", function () {
     const QUARTER_STAKING_AMOUNT = ethers.parseEther('25');
     const NON_EXISTING_PLAN_ID = 999;
     const NON_EXISTING_STAKE_ID = 999;
+    const SECONDS_IN_DAY = 24 * 60 * 60;
 
     let oneMonthStakingPlanId: BigNumberish;
     let threeMonthsStakingPlanId: BigNumberish;
@@ -740,6 +2003,62 @@ describe("Staking Contract", function () {
       });
     });
 
+    describe("compounding accuracy", function () {
+      const SAMPLES = 40;
+      const MAX_DAYS = 3650;
+      const MAX_AMOUNT = ethers.parseEther('1000000');
+
+      const expectWithinBound = async (amount: bigint, days: number, apy: number) => {
+        await stakingManagement.connect(stakingManager).updateStakingPlan(oneMonthStakingPlanId, days * SECONDS_IN_DAY, apy);
+        const estimated = await staking.estimateStakeEarnings(amount, oneMonthStakingPlanId);
+        const expected = calculateExpectedEarnings({
+          stakingAmount: amount,
+          stakingPeriod: BigInt(days * SECONDS_IN_DAY),
+          apy: BigInt(apy),
+        });
+        const difference = estimated.predictedEarningsInTokens - expected.expectedEarningsInTokens;
+        const bound = compoundingErrorBound(expected.expectedBalance, days);
+        expect(difference < 0n ? -difference : difference, `${formatUnits(amount)} tokens, ${days} days, ${apy} APY`)
+          .to.be.lte(bound);
+      };
+
+      it("should match the daily loop within the documented bound for random durations, APYs and amounts", async function () {
+        const random = seededRandom(20240101);
+        for (let i = 0; i < SAMPLES; i++) {
+          const days = 1 + Math.floor(random() * MAX_DAYS);
+          const apy = 1 + Math.floor(random() * HUNDRED_PERCENT);
+          const amount = 1n + (BigInt(Math.floor(random() * 2 ** 52)) * MAX_AMOUNT) / 2n ** 52n;
+          await expectWithinBound(amount, days, apy);
+        }
+      });
+
+      it("should match the daily loop within the documented bound at the edges", async function () {
+        for (const days of [1, 2, 364, 365, 366, MAX_DAYS]) {
+          for (const apy of [1, ONE_MONTH_APY, HUNDRED_PERCENT]) {
+            for (const amount of [1n, QUARTER_STAKING_AMOUNT, ethers.parseEther('1000000000')]) {
+              await expectWithinBound(amount, days, apy);
+            }
+          }
+        }
+      });
+
+      it("should return exactly the daily loop result for regular stake sizes", async function () {
+        const random = seededRandom(42);
+        for (let i = 0; i < SAMPLES; i++) {
+          const days = 1 + Math.floor(random() * MAX_DAYS);
+          const apy = 1 + Math.floor(random() * HUNDRED_PERCENT);
+          await stakingManagement.connect(stakingManager).updateStakingPlan(oneMonthStakingPlanId, days * SECONDS_IN_DAY, apy);
+          const estimated = await staking.estimateStakeEarnings(QUARTER_STAKING_AMOUNT, oneMonthStakingPlanId);
+          const expected = calculateExpectedEarnings({
+            stakingAmount: QUARTER_STAKING_AMOUNT,
+            stakingPeriod: BigInt(days * SECONDS_IN_DAY),
+            apy: BigInt(apy),
+          });
+          expect(estimated.predictedEarningsInTokens).to.be.closeTo(expected.expectedEarningsInTokens, 1n);
+        }
+      });
+    });
+
     describe("getStakes", function () {
       it("should return empty array if 0 offset and 0 limit", async function () {
         const staker1Address = await staker1.getAddress();
@@ -1132,20 +2451,22 @@ export type ExpectedEarningsResult = {
 export type StakeData = {
   stakingAmount: bigint,
   stakingPeriod: bigint,
-  apy: bigint
+  apy: bigint,
+  compoundingPeriod?: bigint // seconds, daily compounding by default
 }
 
 export function calculateExpectedEarnings(stake: StakeData): ExpectedEarningsResult {
   const SECONDS_IN_DAY = 24 * 60 * 60;
-  const DAYS_IN_YEAR = 365;
+  const SECONDS_IN_YEAR = 365 * SECONDS_IN_DAY;
   const HUNDRED_PERCENT = 100_00; // Basis points for APY
   const PRECISION_FACTOR = BigInt(1e18);
-  const dailyRate = (stake.apy * PRECISION_FACTOR) / BigInt(HUNDRED_PERCENT) / BigInt(DAYS_IN_YEAR);
-  const totalCompoundingPeriods = stake.stakingPeriod / BigInt(SECONDS_IN_DAY);
+  const compoundingPeriod = stake.compoundingPeriod ?? BigInt(SECONDS_IN_DAY);
+  const periodRate = (stake.apy * PRECISION_FACTOR * compoundingPeriod) / BigInt(HUNDRED_PERCENT) / BigInt(SECONDS_IN_YEAR);
+  const totalCompoundingPeriods = stake.stakingPeriod / compoundingPeriod;
 
   let compoundedBalance = stake.stakingAmount * PRECISION_FACTOR;
   for (let i = 0n; i < totalCompoundingPeriods; i++) {
-    compoundedBalance += (compoundedBalance * dailyRate) / PRECISION_FACTOR;
+    compoundedBalance += (compoundedBalance * periodRate) / PRECISION_FACTOR;
   }
 
   const earningsInTokens = (compoundedBalance / PRECISION_FACTOR) - stake.stakingAmount;
@@ -1158,6 +2479,34 @@ export function calculateExpectedEarnings(stake: StakeData): ExpectedEarningsRes
   };
 }
 
+export function calculateExpectedSimpleEarnings(stake: StakeData): bigint {
+  const SECONDS_IN_DAY = 24n * 60n * 60n;
+  const fullDays = stake.stakingPeriod / SECONDS_IN_DAY;
+  return (stake.stakingAmount * stake.apy * fullDays) / 10000n / 365n;
+}
+
+/**
+ * Upper bound (in wei) of the difference between the closed-form compounding in `CompoundMath`
+ * and the daily loop: `1 + balance * days / 1e27`.
+ */
+export function compoundingErrorBound(balance: bigint, days: number): bigint {
+  return 1n + (balance * BigInt(days)) / 10n ** 27n;
+}
+
+/**
+ * Deterministic pseudo-random generator (mulberry32) so that property checks are reproducible.
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 export function calculateTotalExpectedEarnings(stakes: StakeData[]): ExpectedEarningsResult {
   let totalEarningsInTokens = 0n;
   let totalWeightedPercentage = 0n;
@@ -126,6 +126,13 @@ describe("StakingManagement Contract", function () {
           .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAStakingManager");
       });
 
+      it("Should emit an event when adding a staking plan", async function () {
+        const planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await expect(stakingManagement.addStakingPlan(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY))
+          .to.emit(stakingManagement, "StakingPlanAdded")
+          .withArgs(planId, ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+      });
+
       it("Should not allow to add a staking plan with the duration less than 1 day", async function () {
         await expect(stakingManagement.addStakingPlan(ONE_DAY_IN_SECONDS - 1, ONE_MONTH_APY)).to.be.revertedWithCustomError(stakingManagement, "DurationMustBeGreaterThanOneDay");
       });
@@ -160,6 +167,12 @@ describe("StakingManagement Contract", function () {
         expect(await stakingManagement.getStakingPlansAmount()).to.equal(0);
       });
 
+      it("Should emit an event when removing a staking plan", async function () {
+        await expect(stakingManagement.connect(deployer).removeStakingPlan(planId))
+          .to.emit(stakingManagement, "StakingPlanRemoved")
+          .withArgs(planId);
+      });
+
       it("Should not allow to remove a staking plan twice", async function () {
         await stakingManagement.connect(deployer).removeStakingPlan(planId);
         await expect(stakingManagement.removeStakingPlan(planId))
@@ -197,6 +210,494 @@ describe("StakingManagement Contract", function () {
       });
     });
 
+    describe("updateStakingPlan", function () {
+      const NON_EXISTING_PLAN_ID = 999;
+      let planId: BigNumberish;
+
+      beforeEach(async function () {
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(deployer).addStakingPlan(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+      });
+
+      it("Should update a staking plan", async function () {
+        await stakingManagement.connect(deployer).updateStakingPlan(planId, THREE_MONTHS_IN_SECONDS, THREE_MONTHS_APY);
+        const plan = await stakingManagement.getStakingPlan(planId);
+        expect(plan.duration).to.equal(THREE_MONTHS_IN_SECONDS);
+        expect(plan.apy).to.equal(THREE_MONTHS_APY);
+        expect(plan.isActive).to.equal(true);
+      });
+
+      it("Should emit an event when updating a staking plan", async function () {
+        await expect(stakingManagement.connect(deployer).updateStakingPlan(planId, THREE_MONTHS_IN_SECONDS, THREE_MONTHS_APY))
+          .to.emit(stakingManagement, "StakingPlanUpdated")
+          .withArgs(planId, THREE_MONTHS_IN_SECONDS, THREE_MONTHS_APY);
+      });
+
+      it("Should not change the terms of existing stakes", async function () {
+        await stakingManagement.connect(deployer).setStakingLimits(STAKING_AMOUNT, STAKING_AMOUNT);
+        await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT);
+        const stakingPoolAddress = await stakingPool.getAddress();
+        await stakingToken.connect(deployer).transfer(stakingPoolAddress, STAKING_AMOUNT * 2);
+        await stakingToken.connect(stakingPool).approve(staking.target, STAKING_AMOUNT * 2);
+        const stakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+        const stakeBefore = await staking.getStake(stakeId);
+
+        await stakingManagement.connect(deployer).updateStakingPlan(planId, THREE_MONTHS_IN_SECONDS, THREE_MONTHS_APY);
+
+        const stakeAfter = await staking.getStake(stakeId);
+        expect(stakeAfter.apy).to.equal(ONE_MONTH_APY);
+        expect(stakeAfter.endTimestamp).to.equal(stakeBefore.endTimestamp);
+      });
+
+      it("Should not allow to update a staking plan that does not exist", async function () {
+        await expect(stakingManagement.updateStakingPlan(NON_EXISTING_PLAN_ID, ONE_MONTH_IN_SECONDS, ONE_MONTH_APY))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanDoesNotExist");
+      });
+
+      it("Should not allow to update a staking plan with invalid terms", async function () {
+        await expect(stakingManagement.updateStakingPlan(planId, ONE_DAY_IN_SECONDS - 1, ONE_MONTH_APY))
+          .to.be.revertedWithCustomError(stakingManagement, "DurationMustBeGreaterThanOneDay");
+        await expect(stakingManagement.updateStakingPlan(planId, ONE_MONTH_IN_SECONDS, HUNDED_ONE_PERCENT))
+          .to.be.revertedWithCustomError(stakingManagement, "APYMustBeWithinRange");
+      });
+
+      it("Should not allow to update a staking plan if not a staking manager", async function () {
+        await expect(stakingManagement.connect(stranger).updateStakingPlan(planId, ONE_MONTH_IN_SECONDS, ONE_MONTH_APY))
+          .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAStakingManager");
+      });
+    });
+
+    describe("setStakingPlanInterestModel", function () {
+      const NON_EXISTING_PLAN_ID = 999;
+      const SIMPLE_INTEREST = 4;
+      let planId: BigNumberish;
+
+      beforeEach(async function () {
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(deployer).addStakingPlan(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+      });
+
+      it("Should set the interest model of a staking plan", async function () {
+        await stakingManagement.connect(deployer).setStakingPlanInterestModel(planId, SIMPLE_INTEREST);
+        const plan = await stakingManagement.getStakingPlan(planId);
+        expect(plan.interestModel).to.equal(SIMPLE_INTEREST);
+        expect(plan.duration).to.equal(ONE_MONTH_IN_SECONDS);
+        expect(plan.apy).to.equal(ONE_MONTH_APY);
+      });
+
+      it("Should emit an event when setting the interest model", async function () {
+        await expect(stakingManagement.connect(deployer).setStakingPlanInterestModel(planId, SIMPLE_INTEREST))
+          .to.emit(stakingManagement, "StakingPlanInterestModelUpdated")
+          .withArgs(planId, SIMPLE_INTEREST);
+      });
+
+      it("Should not allow to set the interest model of a staking plan that does not exist", async function () {
+        await expect(stakingManagement.setStakingPlanInterestModel(NON_EXISTING_PLAN_ID, SIMPLE_INTEREST))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanDoesNotExist");
+      });
+
+      it("Should not allow to set the interest model if not a staking manager", async function () {
+        await expect(stakingManagement.connect(stranger).setStakingPlanInterestModel(planId, SIMPLE_INTEREST))
+          .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAStakingManager");
+      });
+    });
+
+    describe("setEarlyWithdrawalRules", function () {
+      const NON_EXISTING_PLAN_ID = 999;
+      const PENALTY = 5_00;
+      const EARNINGS_SHARE = 50_00;
+      const MINIMUM_LOCK = 7 * ONE_DAY_IN_SECONDS;
+      let planId: BigNumberish;
+
+      beforeEach(async function () {
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(deployer).addStakingPlan(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+      });
+
+      it("Should have no early withdrawal rules by default", async function () {
+        const rules = await stakingManagement.getEarlyWithdrawalRules(planId);
+        expect(rules.isEnabled).to.equal(false);
+        expect(rules.penalty).to.equal(0);
+        expect(rules.earningsShare).to.equal(0);
+        expect(rules.minimumLock).to.equal(0);
+      });
+
+      it("Should set the early withdrawal rules", async function () {
+        await expect(stakingManagement.connect(deployer).setEarlyWithdrawalRules(planId, {
+          isEnabled: true,
+          penalty: PENALTY,
+          earningsShare: EARNINGS_SHARE,
+          minimumLock: MINIMUM_LOCK,
+        }))
+          .to.emit(stakingManagement, "EarlyWithdrawalRulesUpdated")
+          .withArgs(planId, true, PENALTY, EARNINGS_SHARE, MINIMUM_LOCK);
+        const rules = await stakingManagement.getEarlyWithdrawalRules(planId);
+        expect(rules.isEnabled).to.equal(true);
+        expect(rules.penalty).to.equal(PENALTY);
+        expect(rules.earningsShare).to.equal(EARNINGS_SHARE);
+        expect(rules.minimumLock).to.equal(MINIMUM_LOCK);
+      });
+
+      it("Should not allow a penalty or earnings share above 100%", async function () {
+        await expect(stakingManagement.setEarlyWithdrawalRules(planId, {
+          isEnabled: true,
+          penalty: HUNDED_ONE_PERCENT,
+          earningsShare: EARNINGS_SHARE,
+          minimumLock: MINIMUM_LOCK,
+        })).to.be.revertedWithCustomError(stakingManagement, "PenaltyMustBeWithinRange");
+        await expect(stakingManagement.setEarlyWithdrawalRules(planId, {
+          isEnabled: true,
+          penalty: PENALTY,
+          earningsShare: HUNDED_ONE_PERCENT,
+          minimumLock: MINIMUM_LOCK,
+        })).to.be.revertedWithCustomError(stakingManagement, "EarningsShareMustBeWithinRange");
+      });
+
+      it("Should not allow to set the rules of a staking plan that does not exist", async function () {
+        await expect(stakingManagement.setEarlyWithdrawalRules(NON_EXISTING_PLAN_ID, {
+          isEnabled: true,
+          penalty: PENALTY,
+          earningsShare: EARNINGS_SHARE,
+          minimumLock: MINIMUM_LOCK,
+        })).to.be.revertedWithCustomError(stakingManagement, "StakingPlanDoesNotExist");
+      });
+
+      it("Should not allow to set the rules if not a staking manager", async function () {
+        await expect(stakingManagement.connect(stranger).setEarlyWithdrawalRules(planId, {
+          isEnabled: true,
+          penalty: PENALTY,
+          earningsShare: EARNINGS_SHARE,
+          minimumLock: MINIMUM_LOCK,
+        })).to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAStakingManager");
+      });
+    });
+
+    describe("setTreasury", function () {
+      it("Should set the treasury", async function () {
+        const strangerAddress = await stranger.getAddress();
+        await expect(stakingManagement.connect(deployer).setTreasury(strangerAddress))
+          .to.emit(stakingManagement, "TreasuryUpdated")
+          .withArgs(strangerAddress);
+        expect(await stakingManagement.getTreasury()).to.equal(strangerAddress);
+      });
+
+      it("Should not allow to set the treasury if not a staking manager", async function () {
+        await expect(stakingManagement.connect(stranger).setTreasury(await stranger.getAddress()))
+          .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAStakingManager");
+      });
+    });
+
+    describe("setStakingPlanSchedule", function () {
+      const NON_EXISTING_PLAN_ID = 999;
+      let planId: BigNumberish;
+      let now: number;
+
+      beforeEach(async function () {
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(deployer).addStakingPlan(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      });
+
+      it("Should set the schedule and emit event", async function () {
+        const startsAt = now + ONE_DAY_IN_SECONDS;
+        const endsAt = startsAt + ONE_DAY_IN_SECONDS;
+        const maturity = endsAt + ONE_MONTH_IN_SECONDS;
+
+        await expect(stakingManagement.setStakingPlanSchedule(planId, startsAt, endsAt, maturity))
+          .to.emit(stakingManagement, "StakingPlanScheduleUpdated")
+          .withArgs(planId, startsAt, endsAt, maturity);
+
+        const plan = await stakingManagement.getStakingPlan(planId);
+        expect(plan.startsAt).to.equal(startsAt);
+        expect(plan.endsAt).to.equal(endsAt);
+        expect(plan.maturity).to.equal(maturity);
+      });
+
+      it("Should report the plan status over the staking window", async function () {
+        const startsAt = now + ONE_DAY_IN_SECONDS;
+        await stakingManagement.setStakingPlanSchedule(planId, startsAt, startsAt + ONE_DAY_IN_SECONDS, 0);
+
+        expect(await stakingManagement.getStakingPlanStatus(planId)).to.equal(0);
+        await expect(stakingManagement.checkStakingPlanOpen(planId))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanIsNotOpenYet")
+          .withArgs(planId, startsAt);
+
+        await ethers.provider.send("evm_increaseTime", [ONE_DAY_IN_SECONDS]);
+        await ethers.provider.send("evm_mine", []);
+        expect(await stakingManagement.getStakingPlanStatus(planId)).to.equal(1);
+        await stakingManagement.checkStakingPlanOpen(planId);
+
+        await ethers.provider.send("evm_increaseTime", [ONE_DAY_IN_SECONDS]);
+        await ethers.provider.send("evm_mine", []);
+        expect(await stakingManagement.getStakingPlanStatus(planId)).to.equal(2);
+        await expect(stakingManagement.checkStakingPlanOpen(planId))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanIsClosed")
+          .withArgs(planId);
+      });
+
+      it("Should report deactivated plans as closed", async function () {
+        await stakingManagement.deactivateStakingPlan(planId);
+        expect(await stakingManagement.getStakingPlanStatus(planId)).to.equal(2);
+
+        const [, planIds, statuses] = await stakingManagement.getStakingPlans(0, 1);
+        expect(planIds[0]).to.equal(planId);
+        expect(statuses[0]).to.equal(2);
+      });
+
+      it("Should revert if the schedule is inconsistent", async function () {
+        await expect(
+          stakingManagement.setStakingPlanSchedule(planId, now + ONE_DAY_IN_SECONDS, now, 0)
+        ).to.be.revertedWithCustomError(stakingManagement, "InvalidStakingPlanSchedule");
+        await expect(
+          stakingManagement.setStakingPlanSchedule(planId, now, now + ONE_DAY_IN_SECONDS * 2, now + ONE_DAY_IN_SECONDS)
+        ).to.be.revertedWithCustomError(stakingManagement, "InvalidStakingPlanSchedule");
+      });
+
+      it("Should revert if the plan does not exist", async function () {
+        await expect(
+          stakingManagement.setStakingPlanSchedule(NON_EXISTING_PLAN_ID, 0, 0, 0)
+        ).to.be.revertedWithCustomError(stakingManagement, "StakingPlanDoesNotExist");
+      });
+
+      it("Should revert if the caller is not a staking manager", async function () {
+        await expect(
+          stakingManagement.connect(stranger).setStakingPlanSchedule(planId, 0, 0, 0)
+        ).to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAStakingManager");
+      });
+    });
+
+    describe("capacity caps", function () {
+      const NON_EXISTING_PLAN_ID = 999;
+      const CAP = 5000;
+      let planId: BigNumberish;
+
+      beforeEach(async function () {
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(deployer).addStakingPlan(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+      });
+
+      it("Should set the caps and emit events", async function () {
+        await expect(stakingManagement.setPlanCap(planId, CAP))
+          .to.emit(stakingManagement, "PlanCapUpdated")
+          .withArgs(planId, CAP);
+        await expect(stakingManagement.setGlobalCap(CAP * 2))
+          .to.emit(stakingManagement, "GlobalCapUpdated")
+          .withArgs(CAP * 2);
+        await expect(stakingManagement.setWalletLimits(CAP / 2, 3))
+          .to.emit(stakingManagement, "WalletLimitsUpdated")
+          .withArgs(CAP / 2, 3);
+
+        expect(await stakingManagement.getPlanCap(planId)).to.equal(CAP);
+        expect(await stakingManagement.getGlobalCap()).to.equal(CAP * 2);
+        const [principalCap, stakeLimit] = await stakingManagement.getWalletLimits();
+        expect(principalCap).to.equal(CAP / 2);
+        expect(stakeLimit).to.equal(3);
+      });
+
+      it("Should report unlimited remaining capacity without caps", async function () {
+        expect(await stakingManagement.getRemainingCapacity(planId)).to.equal(ethers.MaxUint256);
+      });
+
+      it("Should report the smaller of the plan and global remaining capacity", async function () {
+        await stakingManagement.setPlanCap(planId, CAP);
+        expect(await stakingManagement.getRemainingCapacity(planId)).to.equal(CAP);
+        await stakingManagement.setGlobalCap(CAP / 2);
+        expect(await stakingManagement.getRemainingCapacity(planId)).to.equal(CAP / 2);
+      });
+
+      it("Should revert with the error of the exceeded cap", async function () {
+        const wallet = await staker1.getAddress();
+        await stakingManagement.setPlanCap(planId, CAP);
+        await stakingManagement.setGlobalCap(CAP);
+        await stakingManagement.setWalletLimits(CAP, 1);
+        await expect(stakingManagement.checkStakingCapacity(planId, wallet, CAP, CAP, CAP, 1)).to.not.be.reverted;
+        await expect(stakingManagement.checkStakingCapacity(planId, wallet, CAP + 1, CAP, CAP, 1))
+          .to.be.revertedWithCustomError(stakingManagement, "PlanCapExceeded")
+          .withArgs(planId, CAP);
+        await expect(stakingManagement.checkStakingCapacity(planId, wallet, CAP, CAP + 1, CAP, 1))
+          .to.be.revertedWithCustomError(stakingManagement, "GlobalCapExceeded")
+          .withArgs(CAP);
+        await expect(stakingManagement.checkStakingCapacity(planId, wallet, CAP, CAP, CAP + 1, 1))
+          .to.be.revertedWithCustomError(stakingManagement, "WalletCapExceeded")
+          .withArgs(wallet, CAP);
+        await expect(stakingManagement.checkStakingCapacity(planId, wallet, CAP, CAP, CAP, 2))
+          .to.be.revertedWithCustomError(stakingManagement, "WalletStakeLimitExceeded")
+          .withArgs(wallet, 1);
+      });
+
+      it("Should not allow to set the cap of a staking plan that does not exist", async function () {
+        await expect(stakingManagement.setPlanCap(NON_EXISTING_PLAN_ID, CAP))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanDoesNotExist");
+      });
+
+      it("Should not allow to set the caps if not a staking manager", async function () {
+        await expect(stakingManagement.connect(stranger).setPlanCap(planId, CAP))
+          .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAStakingManager");
+        await expect(stakingManagement.connect(stranger).setGlobalCap(CAP))
+          .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAStakingManager");
+        await expect(stakingManagement.connect(stranger).setWalletLimits(CAP, 1))
+          .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAStakingManager");
+      });
+    });
+
+    describe("pause and emergency mode", function () {
+      const PAUSER_ROLE = solidityIdBytes32("PAUSER");
+
+      it("Should grant the pauser role to the deployer", async function () {
+        expect(await stakingManagement.hasRole(PAUSER_ROLE, await deployer.getAddress())).to.equal(true);
+      });
+
+      it("Should pause and unpause staking", async function () {
+        const deployerAddress = await deployer.getAddress();
+        await expect(stakingManagement.pauseStaking())
+          .to.emit(stakingManagement, "StakingPaused")
+          .withArgs(deployerAddress);
+        expect(await stakingManagement.isStakingPaused()).to.equal(true);
+        expect(await stakingManagement.isWithdrawalsPaused()).to.equal(false);
+        await expect(stakingManagement.checkStakingAllowed())
+          .to.be.revertedWithCustomError(stakingManagement, "StakingIsPaused");
+
+        await expect(stakingManagement.unpauseStaking())
+          .to.emit(stakingManagement, "StakingUnpaused")
+          .withArgs(deployerAddress);
+        expect(await stakingManagement.isStakingPaused()).to.equal(false);
+        await expect(stakingManagement.checkStakingAllowed()).to.not.be.reverted;
+      });
+
+      it("Should pause and unpause withdrawals", async function () {
+        const deployerAddress = await deployer.getAddress();
+        await expect(stakingManagement.pauseWithdrawals())
+          .to.emit(stakingManagement, "WithdrawalsPaused")
+          .withArgs(deployerAddress);
+        expect(await stakingManagement.isWithdrawalsPaused()).to.equal(true);
+        expect(await stakingManagement.isStakingPaused()).to.equal(false);
+        await expect(stakingManagement.checkWithdrawalsAllowed())
+          .to.be.revertedWithCustomError(stakingManagement, "WithdrawalsArePaused");
+
+        await expect(stakingManagement.unpauseWithdrawals())
+          .to.emit(stakingManagement, "WithdrawalsUnpaused")
+          .withArgs(deployerAddress);
+        expect(await stakingManagement.isWithdrawalsPaused()).to.equal(false);
+      });
+
+      it("Should enable and disable the emergency mode", async function () {
+        const deployerAddress = await deployer.getAddress();
+        await expect(stakingManagement.checkEmergencyMode())
+          .to.be.revertedWithCustomError(stakingManagement, "EmergencyModeIsNotActive");
+        await expect(stakingManagement.enableEmergencyMode())
+          .to.emit(stakingManagement, "EmergencyModeEnabled")
+          .withArgs(deployerAddress);
+        expect(await stakingManagement.isEmergencyMode()).to.equal(true);
+        await expect(stakingManagement.checkStakingAllowed())
+          .to.be.revertedWithCustomError(stakingManagement, "EmergencyModeIsActive");
+        await expect(stakingManagement.checkWithdrawalsAllowed())
+          .to.be.revertedWithCustomError(stakingManagement, "EmergencyModeIsActive");
+
+        await expect(stakingManagement.disableEmergencyMode())
+          .to.emit(stakingManagement, "EmergencyModeDisabled")
+          .withArgs(deployerAddress);
+        expect(await stakingManagement.isEmergencyMode()).to.equal(false);
+      });
+
+      it("Should not allow to repeat a state change", async function () {
+        await expect(stakingManagement.unpauseStaking())
+          .to.be.revertedWithCustomError(stakingManagement, "StakingIsNotPaused");
+        await expect(stakingManagement.unpauseWithdrawals())
+          .to.be.revertedWithCustomError(stakingManagement, "WithdrawalsAreNotPaused");
+        await expect(stakingManagement.disableEmergencyMode())
+          .to.be.revertedWithCustomError(stakingManagement, "EmergencyModeIsNotActive");
+        await stakingManagement.pauseStaking();
+        await stakingManagement.pauseWithdrawals();
+        await stakingManagement.enableEmergencyMode();
+        await expect(stakingManagement.pauseStaking())
+          .to.be.revertedWithCustomError(stakingManagement, "StakingIsPaused");
+        await expect(stakingManagement.pauseWithdrawals())
+          .to.be.revertedWithCustomError(stakingManagement, "WithdrawalsArePaused");
+        await expect(stakingManagement.enableEmergencyMode())
+          .to.be.revertedWithCustomError(stakingManagement, "EmergencyModeIsActive");
+      });
+
+      it("Should allow a granted pauser to pause", async function () {
+        await stakingManagement.grantRole(PAUSER_ROLE, await stranger.getAddress());
+        await expect(stakingManagement.connect(stranger).pauseStaking()).to.not.be.reverted;
+      });
+
+      it("Should not allow to pause if not a pauser", async function () {
+        await expect(stakingManagement.connect(stranger).pauseStaking())
+          .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAPauser");
+        await expect(stakingManagement.connect(stranger).pauseWithdrawals())
+          .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAPauser");
+        await expect(stakingManagement.connect(stranger).enableEmergencyMode())
+          .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAPauser");
+      });
+    });
+
+    describe("deactivateStakingPlan and activateStakingPlan", function () {
+      let planId: BigNumberish;
+
+      beforeEach(async function () {
+        planId = await stakingManagement.addStakingPlan.staticCall(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(deployer).addStakingPlan(ONE_MONTH_IN_SECONDS, ONE_MONTH_APY);
+        await stakingManagement.connect(deployer).setStakingLimits(STAKING_AMOUNT, STAKING_AMOUNT);
+        await stakingToken.connect(staker1).approve(staking.target, STAKING_AMOUNT * 2);
+        const stakingPoolAddress = await stakingPool.getAddress();
+        await stakingToken.connect(deployer).transfer(stakingPoolAddress, STAKING_AMOUNT * 2);
+        await stakingToken.connect(stakingPool).approve(staking.target, STAKING_AMOUNT * 4);
+      });
+
+      it("Should deactivate a staking plan and emit an event", async function () {
+        await expect(stakingManagement.deactivateStakingPlan(planId))
+          .to.emit(stakingManagement, "StakingPlanDeactivated")
+          .withArgs(planId);
+        expect((await stakingManagement.getStakingPlan(planId)).isActive).to.equal(false);
+      });
+
+      it("Should reject new stakes for a deactivated staking plan", async function () {
+        await stakingManagement.deactivateStakingPlan(planId);
+        await expect(staking.connect(staker1).stake(STAKING_AMOUNT, planId))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanIsNotActive");
+      });
+
+      it("Should let existing stakes of a deactivated staking plan run to maturity", async function () {
+        const stakeId = await staking.connect(staker1).stake.staticCall(STAKING_AMOUNT, planId);
+        await staking.connect(staker1).stake(STAKING_AMOUNT, planId);
+        await stakingManagement.deactivateStakingPlan(planId);
+
+        await ethers.provider.send("evm_increaseTime", [ONE_MONTH_IN_SECONDS]);
+        await ethers.provider.send("evm_mine");
+
+        await expect(staking.connect(staker1).withdraw(stakeId)).to.not.be.reverted;
+      });
+
+      it("Should accept new stakes again after activation", async function () {
+        await stakingManagement.deactivateStakingPlan(planId);
+        await expect(stakingManagement.activateStakingPlan(planId))
+          .to.emit(stakingManagement, "StakingPlanActivated")
+          .withArgs(planId);
+        await expect(staking.connect(staker1).stake(STAKING_AMOUNT, planId)).to.not.be.reverted;
+      });
+
+      it("Should not allow to deactivate a staking plan twice", async function () {
+        await stakingManagement.deactivateStakingPlan(planId);
+        await expect(stakingManagement.deactivateStakingPlan(planId))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanIsNotActive");
+      });
+
+      it("Should not allow to activate an active staking plan", async function () {
+        await expect(stakingManagement.activateStakingPlan(planId))
+          .to.be.revertedWithCustomError(stakingManagement, "StakingPlanIsAlreadyActive")
+          .withArgs(planId);
+      });
+
+      it("Should not allow to deactivate or activate a staking plan if not a staking manager", async function () {
+        await expect(stakingManagement.connect(stranger).deactivateStakingPlan(planId))
+          .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAStakingManager");
+        await expect(stakingManagement.connect(stranger).activateStakingPlan(planId))
+          .to.be.revertedWithCustomError(stakingManagement, "CallerIsNotAStakingManager");
+      });
+    });
+
     describe("enableWithdraw", function () {
       it("Should enable withdraw", async function () {
         await stakingManagement.enableWithdraw();
@@ -442,11 +943,12 @@ describe("StakingManagement Contract", function () {
         await stakingManagement.connect(deployer).addStakingPlan(TWELVE_MONTHS_IN_SECONDS, TWELVE_MONTHS_APY);
       });
 
-      it("Should return the staking plans and their IDs", async function () {
-        const [plans, planIds] = await stakingManagement.getStakingPlans(OFFSET, 4);
+      it("Should return the staking plans, their IDs and statuses", async function () {
+        const [plans, planIds, statuses] = await stakingManagement.getStakingPlans(OFFSET, 4);
 
         expect(plans.length).to.equal(4);
         expect(planIds.length).to.equal(4);
+        expect(statuses).to.deep.equal([1n, 1n, 1n, 1n]);
 
         expect(plans[0].duration).to.equal(ONE_MONTH_IN_SECONDS);
         expect(plans[0].apy).to.equal(ONE_MONTH_APY);
@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import { parseReceivers } from "../tasks/utils/timelock-csv";
+
+describe("Timelock CSV", function () {
+  const RECEIVER = "0x00000000000000000000000000000000000000aa";
+  const HEADERS = ["staker", "reward", "start", "cliff", "vesting"];
+  const DEFAULTS = { start: String(Math.floor(Date.now() / 1000)), cliff: "6mo", vesting: "1y" };
+
+  describe("parseReceivers", function () {
+    it("Should warn about fully identical rows and keep them", async function () {
+      const rows = [
+        { staker: RECEIVER, reward: "100" },
+        { staker: RECEIVER, reward: "100" },
+        { staker: RECEIVER, reward: "50" },
+      ];
+
+      const { receivers, issues, warnings } = parseReceivers({ headers: HEADERS, rows }, DEFAULTS, 18n);
+
+      expect(receivers).to.have.lengthOf(3);
+      expect(issues).to.be.empty;
+      expect(warnings).to.deep.equal([{ row: 3, message: "identical to row 2, another timelock will be added" }]);
+    });
+
+    it("Should not apply the default vesting duration to milestone rows", async function () {
+      const milestones = `${Number(DEFAULTS.start) + 200 * 86400}:100`;
+      const rows: Record<string, string>[] = [
+        { staker: RECEIVER, reward: "100", curve: "milestones", milestones },
+        { staker: RECEIVER, reward: "100", curve: "milestones", vesting: "1y", milestones },
+      ];
+
+      const { receivers, issues } = parseReceivers({ headers: [...HEADERS, "curve", "milestones"], rows }, DEFAULTS, 18n);
+
+      expect(receivers).to.have.lengthOf(1);
+      expect(receivers[0].vestingDuration).to.equal(0);
+      expect(issues).to.deep.equal([{ row: 3, message: "vesting is not allowed for the milestones curve" }]);
+    });
+
+    it("Should reject milestones more than 10 years after the start", async function () {
+      const milestones = `${Number(DEFAULTS.start) + 10 * 365 * 86400 + 1}:100`;
+      const rows = [{ staker: RECEIVER, reward: "100", curve: "milestones", milestones }];
+
+      const { issues } = parseReceivers({ headers: [...HEADERS, "curve", "milestones"], rows }, DEFAULTS, 18n);
+
+      expect(issues).to.deep.equal([{ row: 2, message: "last milestone is more than 10 years after the start" }]);
+    });
+
+    it("Should reject milestones before the cliff end", async function () {
+      const milestones = `${Number(DEFAULTS.start) + 86400}:100`;
+      const rows = [{ staker: RECEIVER, reward: "100", cliff: "1mo", curve: "milestones", milestones }];
+
+      const { issues } = parseReceivers({ headers: [...HEADERS, "curve", "milestones"], rows }, DEFAULTS, 18n);
+
+      expect(issues).to.deep.equal([{ row: 2, message: "milestones must not be before the cliff end" }]);
+    });
+
+    it("Should reject rows starting more than a year ago only when asked to", async function () {
+      const start = String(Number(DEFAULTS.start) - 400 * 86400);
+      const rows = [{ staker: RECEIVER, reward: "100", start }];
+
+      expect(parseReceivers({ headers: HEADERS, rows }, DEFAULTS, 18n).issues).to.be.empty;
+      expect(parseReceivers({ headers: HEADERS, rows }, DEFAULTS, 18n, true).issues).to.deep.equal([
+        { row: 2, message: "start is more than a year in the past" },
+      ]);
+    });
+  });
+});